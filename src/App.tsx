@@ -2,14 +2,18 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import LoanForm from "./pages/LoanForm";
 import AdminLogin from "./pages/AdminLogin";
 import AdminDashboard from "./pages/AdminDashboard";
 import AdminSettings from "./pages/AdminSettings";
+import AdminAnalytics from "./pages/AdminAnalytics";
 import ThankYou from './pages/ThankYou';
+import { RequireAdmin } from "./components/RequireAdmin";
+import { AuthProvider } from "./components/AuthProvider";
+import { SubmissionSync } from "./components/SubmissionSync";
 
 
 const queryClient = new QueryClient();
@@ -19,16 +23,29 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
+      <SubmissionSync />
       <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<AdminLogin />} />
-          <Route path="/admin/dashboard" element={<AdminDashboard />} />
-          <Route path="/admin/settings" element={<AdminSettings />} />
-         <Route path="/admin/logout" element={<AdminLogin/>} />
+        <AuthProvider>
+          <Routes>
+            {/* Public applicant area */}
+            <Route path="/" element={<Index />} />
+            <Route path="/loan-form" element={<LoanForm />} />
+            <Route path="/thank-you" element={<ThankYou />} />
 
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
+            {/* Admin area */}
+            <Route path="/admin/login" element={<AdminLogin />} />
+            <Route path="/admin/logout" element={<AdminLogin />} />
+            <Route path="/admin" element={<RequireAdmin />}>
+              <Route index element={<Navigate to="/admin/dashboard" replace />} />
+              <Route path="dashboard" element={<AdminDashboard />} />
+              <Route path="analytics" element={<AdminAnalytics />} />
+              <Route path="settings" element={<AdminSettings />} />
+            </Route>
+
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
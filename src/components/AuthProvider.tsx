@@ -0,0 +1,210 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { AuthContext, type AuthContextValue, type LogoutReason } from "@/hooks/use-auth";
+import { api, setUnauthorizedHandler, type LoginResponse } from "@/lib/api";
+import { getTokenExpiry } from "@/lib/jwt";
+import { session } from "@/lib/session";
+
+// Warn (or silently refresh) this long before the token expires
+const WARNING_BEFORE_EXPIRY_MS = 5 * 60 * 1000;
+// An admin counts as active if they interacted within this window
+const ACTIVITY_WINDOW_MS = 5 * 60 * 1000;
+// setTimeout overflows above ~24.8 days
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+const CHANNEL_NAME = "admin_auth";
+
+type ChannelMessage = { type: "logout" };
+
+const LOGOUT_MESSAGES: Partial<Record<LogoutReason, string>> = {
+  expired: "Your session has expired. Please log in again.",
+  unauthorized: "Your session is no longer valid. Please log in again.",
+  remote: "You were logged out from another tab.",
+};
+
+function formatRemaining(ms: number) {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const [token, setToken] = useState<string | null>(() =>
+    session.isAuthenticated() ? session.getToken() : null
+  );
+  const [username, setUsername] = useState<string | null>(() => session.getUsername());
+  const [showWarning, setShowWarning] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const lastActivityRef = useRef(Date.now());
+
+  const expiresAt = useMemo(() => (token ? getTokenExpiry(token) : null), [token]);
+
+  const logout = useCallback(
+    (reason: LogoutReason = "manual") => {
+      session.clear();
+      setToken(null);
+      setUsername(null);
+      setShowWarning(false);
+
+      // Only deliberate logouts and real expiry reach other tabs; a 401 may be one stale request
+      if (reason === "manual" || reason === "expired") {
+        channelRef.current?.postMessage({ type: "logout" } satisfies ChannelMessage);
+      }
+
+      const message = LOGOUT_MESSAGES[reason];
+      if (message) toast({ title: "Signed out", description: message });
+    },
+    [toast]
+  );
+
+  const login = useCallback((data: LoginResponse) => {
+    session.save(data.token, data.username, data.refreshToken);
+    setToken(data.token);
+    setUsername(data.username);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsRefreshing(true);
+      const data = await api.refreshSession(session.getRefreshToken());
+      session.updateTokens(data.token, data.refreshToken);
+      setToken(data.token);
+      setShowWarning(false);
+      return true;
+    } catch {
+      return false;
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  // 401s from any API call end this tab's session
+  useEffect(() => {
+    setUnauthorizedHandler(() => logout("unauthorized"));
+    return () => setUnauthorizedHandler(null);
+  }, [logout]);
+
+  // Logging out in one tab logs out every other open tab
+  useEffect(() => {
+    if (typeof BroadcastChannel === "undefined") return;
+
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<ChannelMessage>) => {
+      if (event.data?.type === "logout" && session.getToken()) logout("remote");
+    };
+    channelRef.current = channel;
+
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [logout]);
+
+  // Track activity so active admins get a silent refresh instead of a dialog
+  useEffect(() => {
+    const markActive = () => {
+      lastActivityRef.current = Date.now();
+    };
+    const events = ["mousedown", "keydown", "touchstart"] as const;
+    events.forEach((e) => window.addEventListener(e, markActive, { passive: true }));
+    return () => events.forEach((e) => window.removeEventListener(e, markActive));
+  }, []);
+
+  // Schedule the expiry warning and the hard logout
+  useEffect(() => {
+    if (!expiresAt) return;
+
+    const onWarning = async () => {
+      const isActive = Date.now() - lastActivityRef.current < ACTIVITY_WINDOW_MS;
+      if (isActive && session.getRefreshToken() && (await refresh())) return;
+      setNow(Date.now());
+      setShowWarning(true);
+    };
+
+    const untilExpiry = expiresAt - Date.now();
+    const warningTimer = setTimeout(
+      onWarning,
+      Math.min(MAX_TIMEOUT_MS, Math.max(0, untilExpiry - WARNING_BEFORE_EXPIRY_MS))
+    );
+    const expiryTimer = setTimeout(() => logout("expired"), Math.min(MAX_TIMEOUT_MS, Math.max(0, untilExpiry)));
+
+    return () => {
+      clearTimeout(warningTimer);
+      clearTimeout(expiryTimer);
+    };
+  }, [expiresAt, refresh, logout]);
+
+  // Tick the countdown while the warning is visible
+  useEffect(() => {
+    if (!showWarning) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [showWarning]);
+
+  const handleStaySignedIn = async () => {
+    if (await refresh()) return;
+    toast({
+      title: "Unable to extend session",
+      description: "Please save your work and log in again.",
+      variant: "destructive",
+    });
+  };
+
+  const value = useMemo<AuthContextValue>(
+    () => ({
+      isAuthenticated: !!token,
+      username,
+      expiresAt,
+      login,
+      logout,
+      refresh,
+    }),
+    [token, username, expiresAt, login, logout, refresh]
+  );
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+
+      <AlertDialog open={showWarning && !!token}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Your session is about to expire</AlertDialogTitle>
+            <AlertDialogDescription>
+              You will be signed out in {formatRemaining((expiresAt ?? now) - now)}. Would you like to stay
+              signed in?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => logout("manual")}>Log out</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isRefreshing}
+              onClick={(e) => {
+                e.preventDefault();
+                handleStaySignedIn();
+              }}
+            >
+              {isRefreshing ? "Extending..." : "Stay signed in"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AuthContext.Provider>
+  );
+}
@@ -0,0 +1,181 @@
+import { useMemo, useState } from "react";
+import { CheckCircle2, ChevronDown, TriangleAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { formatCurrency } from "@/lib/loan-details";
+import {
+  EMI_LIMITS,
+  MAX_EMI_TO_INCOME,
+  amortizationSchedule,
+  calculateEmi,
+  checkEligibility,
+} from "@/lib/emi";
+
+export interface EmiInputs {
+  amount: number;
+  annualRate: number;
+  tenureMonths: number;
+}
+
+interface EmiCalculatorProps {
+  value: EmiInputs;
+  onChange: (value: EmiInputs) => void;
+  /** Declared income; shows the indicative eligibility check when set. */
+  monthlyIncome?: number;
+  className?: string;
+}
+
+const clamp = (value: number, { min, max }: { min: number; max: number }) => Math.min(Math.max(value, min), max);
+
+interface SliderRowProps {
+  label: string;
+  display: string;
+  value: number;
+  limits: { min: number; max: number; step: number };
+  onChange: (value: number) => void;
+}
+
+function SliderRow({ label, display, value, limits, onChange }: SliderRowProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between text-sm">
+        <span className="text-muted-foreground">{label}</span>
+        <span className="font-semibold">{display}</span>
+      </div>
+      <Slider
+        min={limits.min}
+        max={limits.max}
+        step={limits.step}
+        value={[clamp(value, limits)]}
+        onValueChange={([next]) => onChange(next)}
+        aria-label={label}
+      />
+    </div>
+  );
+}
+
+export function EmiCalculator({ value, onChange, monthlyIncome, className }: EmiCalculatorProps) {
+  const [showSchedule, setShowSchedule] = useState(false);
+  const { amount, annualRate, tenureMonths } = value;
+
+  const emi = calculateEmi(amount, annualRate, tenureMonths);
+  const totalPayable = emi * tenureMonths;
+  const eligibility = monthlyIncome > 0 ? checkEligibility(monthlyIncome, emi, annualRate, tenureMonths) : null;
+
+  // Only built while the schedule is open; long tenures run to hundreds of rows
+  const schedule = useMemo(
+    () => (showSchedule ? amortizationSchedule(amount, annualRate, tenureMonths) : []),
+    [showSchedule, amount, annualRate, tenureMonths]
+  );
+
+  const years = Math.floor(tenureMonths / 12);
+  const months = tenureMonths % 12;
+  const tenureLabel = [years && `${years} yr`, months && `${months} mo`].filter(Boolean).join(" ");
+
+  return (
+    <div className={cn("space-y-6", className)}>
+      <SliderRow
+        label="Loan amount"
+        display={formatCurrency(amount)}
+        value={amount}
+        limits={EMI_LIMITS.amount}
+        onChange={(next) => onChange({ ...value, amount: next })}
+      />
+      <SliderRow
+        label="Interest rate (p.a.)"
+        display={`${annualRate}%`}
+        value={annualRate}
+        limits={EMI_LIMITS.annualRate}
+        onChange={(next) => onChange({ ...value, annualRate: next })}
+      />
+      <SliderRow
+        label="Tenure"
+        display={tenureLabel}
+        value={tenureMonths}
+        limits={EMI_LIMITS.tenureMonths}
+        onChange={(next) => onChange({ ...value, tenureMonths: next })}
+      />
+
+      <div className="grid grid-cols-3 gap-3 rounded-lg bg-muted/50 p-4 text-center">
+        <div>
+          <p className="text-xs text-muted-foreground">Monthly EMI</p>
+          <p className="text-lg font-bold text-primary">{formatCurrency(Math.round(emi))}</p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Total interest</p>
+          <p className="font-semibold">{formatCurrency(Math.round(totalPayable - amount))}</p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Total payable</p>
+          <p className="font-semibold">{formatCurrency(Math.round(totalPayable))}</p>
+        </div>
+      </div>
+
+      {eligibility && (
+        <div
+          className={cn(
+            "flex gap-3 rounded-lg border p-4 text-sm",
+            eligibility.eligible ? "border-green-300 bg-green-50" : "border-amber-300 bg-amber-50"
+          )}
+        >
+          {eligibility.eligible ? (
+            <CheckCircle2 className="h-5 w-5 shrink-0 text-green-600" />
+          ) : (
+            <TriangleAlert className="h-5 w-5 shrink-0 text-amber-600" />
+          )}
+          <div className="space-y-1">
+            <p className="font-medium">
+              {eligibility.eligible
+                ? "This EMI looks affordable on your declared income."
+                : "This EMI is more than we can usually offer on your declared income."}
+            </p>
+            <p className="text-muted-foreground">
+              Up to {formatCurrency(Math.round(eligibility.maxEmi))}/month ({MAX_EMI_TO_INCOME * 100}% of income), or
+              about {formatCurrency(Math.round(eligibility.maxAmount / 1000) * 1000)} at this rate and tenure.
+              Indicative only; final eligibility depends on our assessment.
+            </p>
+          </div>
+        </div>
+      )}
+
+      <Collapsible open={showSchedule} onOpenChange={setShowSchedule}>
+        <CollapsibleTrigger asChild>
+          <Button type="button" variant="ghost" size="sm" className="px-0">
+            <ChevronDown className={cn("mr-2 h-4 w-4 transition-transform", showSchedule && "rotate-180")} />
+            {showSchedule ? "Hide" : "Show"} amortization schedule
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <ScrollArea className="h-72 rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Month</TableHead>
+                  <TableHead className="text-right">EMI</TableHead>
+                  <TableHead className="text-right">Principal</TableHead>
+                  <TableHead className="text-right">Interest</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {schedule.map((row) => (
+                  <TableRow key={row.month}>
+                    <TableCell>{row.month}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(Math.round(row.emi))}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(Math.round(row.principal))}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(Math.round(row.interest))}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(Math.round(row.balance))}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+}
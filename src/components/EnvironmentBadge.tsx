@@ -0,0 +1,28 @@
+import { Badge } from "@/components/ui/badge";
+import { BACKEND_PROFILE, IS_OFFLINE, IS_PRODUCTION } from "@/config";
+
+export function EnvironmentBadge() {
+  if (IS_OFFLINE) {
+    return (
+      <Badge
+        variant="outline"
+        className="border-blue-500 bg-blue-100 text-blue-800 uppercase tracking-wide"
+        title="Data is stored in this browser only"
+      >
+        Offline
+      </Badge>
+    );
+  }
+
+  if (IS_PRODUCTION) return null;
+
+  return (
+    <Badge
+      variant="outline"
+      className="border-yellow-500 bg-yellow-100 text-yellow-800 uppercase tracking-wide"
+      title={BACKEND_PROFILE.baseUrl}
+    >
+      {BACKEND_PROFILE.label}
+    </Badge>
+  );
+}
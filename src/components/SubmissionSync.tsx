@@ -0,0 +1,31 @@
+import { useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { submissionQueue } from "@/lib/submission-queue";
+
+/** Uploads queued applications in the background for as long as the app is open. */
+export function SubmissionSync() {
+  const { toast } = useToast();
+
+  useEffect(() => submissionQueue.start(), []);
+
+  useEffect(
+    () =>
+      submissionQueue.subscribe((event) => {
+        if (event.type === "uploaded") {
+          toast({
+            title: "Pending application uploaded",
+            description: `${event.submission.payload.name}'s application has been submitted.`,
+          });
+        } else if (event.type === "rejected") {
+          toast({
+            title: "Pending application not accepted",
+            description: `${event.submission.payload.name}: ${event.submission.lastError}`,
+            variant: "destructive",
+          });
+        }
+      }),
+    [toast]
+  );
+
+  return null;
+}
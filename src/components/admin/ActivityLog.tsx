@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import { api } from "@/lib/api";
+import { ACTIVITY_LABELS, type ActivityEntry } from "@/lib/activity";
+
+interface ActivityLogProps {
+  applicationId: string;
+  /** Bump to reload after the dashboard logs a new activity. */
+  refreshKey?: number;
+}
+
+export function ActivityLog({ applicationId, refreshKey = 0 }: ActivityLogProps) {
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    api
+      .getApplicationActivity(applicationId)
+      .then((data) => !cancelled && setEntries(data))
+      .catch(() => !cancelled && setEntries([]))
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [applicationId, refreshKey]);
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading activity...</p>;
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">No activity recorded</p>;
+  }
+
+  // Newest first
+  const sorted = [...entries].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+
+  return (
+    <ul className="space-y-2">
+      {sorted.map((entry, index) => (
+        <li key={entry._id ?? `${entry.createdAt}-${index}`} className="flex justify-between gap-4 text-sm">
+          <span>
+            <span className="font-medium">{entry.actor || "Admin"}</span>{" "}
+            {ACTIVITY_LABELS[entry.type]?.toLowerCase() ?? entry.type}
+            {entry.details && <span className="text-gray-500"> · {entry.details}</span>}
+          </span>
+          <span className="text-xs text-gray-500 whitespace-nowrap">
+            {new Date(entry.createdAt).toLocaleString()}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,156 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { usePinCodeAutofill } from "@/hooks/use-pin-autofill";
+import type { Application } from "@/lib/api";
+import { applicantEditSchema, type ApplicantEditValues } from "@/lib/application-schema";
+
+interface ApplicantEditDialogProps {
+  application: Application | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (values: ApplicantEditValues) => Promise<void>;
+}
+
+const toValues = (app: Application | null): ApplicantEditValues => ({
+  name: app?.name ?? "",
+  // Stored dates may carry a time part; the date input needs yyyy-MM-dd
+  dateOfBirth: app?.dateOfBirth?.slice(0, 10) ?? "",
+  gender: app?.gender ?? "",
+  panNumber: app?.panNumber ?? "",
+  aadhaarNumber: app?.aadhaarNumber ?? "",
+  phoneNumber: app?.phoneNumber ?? "",
+  primaryContactNumber: app?.primaryContactNumber ?? "",
+  address: app?.address ?? "",
+  pinCode: app?.pinCode ?? "",
+  city: app?.city ?? "",
+  state: app?.state ?? "",
+});
+
+type TextField = Exclude<keyof ApplicantEditValues, "gender" | "address">;
+
+export function ApplicantEditDialog({ application, open, onOpenChange, onSave }: ApplicantEditDialogProps) {
+  const form = useForm<ApplicantEditValues>({
+    resolver: zodResolver(applicantEditSchema),
+    defaultValues: toValues(application),
+  });
+  usePinCodeAutofill(form);
+
+  useEffect(() => {
+    if (open) form.reset(toValues(application));
+  }, [open, application, form]);
+
+  const submit = async (values: ApplicantEditValues) => {
+    try {
+      await onSave(values);
+      onOpenChange(false);
+    } catch {
+      // The caller reports the error; keep the dialog open so nothing typed is lost
+    }
+  };
+
+  const textField = (name: TextField, label: string, type = "text") => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input type={type} {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Applicant Details</DialogTitle>
+          <DialogDescription>Corrections are saved to the application and recorded in its activity.</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(submit)} className="space-y-4">
+            {textField("name", "Full Name")}
+
+            <div className="grid sm:grid-cols-2 gap-4">
+              {textField("dateOfBirth", "Date of Birth", "date")}
+              <FormField
+                control={form.control}
+                name="gender"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Gender</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select gender" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="male">Male</SelectItem>
+                        <SelectItem value="female">Female</SelectItem>
+                        <SelectItem value="other">Other</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {textField("panNumber", "PAN")}
+              {textField("aadhaarNumber", "Aadhaar Number")}
+              {textField("phoneNumber", "Phone Number")}
+              {textField("primaryContactNumber", "Primary Contact")}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Address</FormLabel>
+                  <FormControl>
+                    <Textarea className="min-h-[80px]" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid sm:grid-cols-3 gap-4">
+              {textField("pinCode", "PIN Code")}
+              {textField("city", "City")}
+              {textField("state", "State")}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? "Saving..." : "Save Changes"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
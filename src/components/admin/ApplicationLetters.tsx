@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { Download, FilePlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { LetterDialog } from "@/components/admin/LetterDialog";
+import { useToast } from "@/hooks/use-toast";
+import { api, ApiError, type Application } from "@/lib/api";
+import { downloadBlob } from "@/lib/download";
+import { LETTER_KIND_LABELS, getLetterKindFor, type ApplicationLetter } from "@/lib/letters";
+import { getStatus } from "@/lib/status";
+
+interface ApplicationLettersProps {
+  application: Application;
+  /** Staff member shown in the PDF footer. */
+  generatedBy?: string | null;
+  onGenerated?: (letter: ApplicationLetter) => void;
+}
+
+/** Sanction and rejection letters sent for an application, newest first. */
+export function ApplicationLetters({ application, generatedBy, onGenerated }: ApplicationLettersProps) {
+  const { toast } = useToast();
+  const [letters, setLetters] = useState<ApplicationLetter[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const kind = getLetterKindFor(getStatus(application));
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    api
+      .getApplicationLetters(application._id)
+      .then((data) => !cancelled && setLetters(data))
+      .catch(() => !cancelled && setLetters([]))
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [application._id]);
+
+  const handleDownload = async (letter: ApplicationLetter) => {
+    try {
+      downloadBlob(await api.getApplicationLetter(application._id, letter._id), letter.fileName);
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof ApiError ? err.message : "Unable to load letter",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSaved = (letter: ApplicationLetter) => {
+    setLetters((prev) => [letter, ...prev]);
+    onGenerated?.(letter);
+  };
+
+  const sorted = [...letters].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-500">
+          {kind
+            ? `A ${LETTER_KIND_LABELS[kind].toLowerCase()} can be generated for this application.`
+            : "Letters can be generated once the application is approved or rejected."}
+        </p>
+        {kind && (
+          <Button size="sm" onClick={() => setIsDialogOpen(true)}>
+            <FilePlus className="mr-2 h-4 w-4" /> {LETTER_KIND_LABELS[kind]}
+          </Button>
+        )}
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading letters...</p>
+      ) : sorted.length === 0 ? (
+        <p className="text-sm text-gray-500">No letters yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {sorted.map((letter) => (
+            <li key={letter._id} className="flex items-center justify-between gap-4 rounded-md border p-3 text-sm">
+              <div>
+                <p className="font-medium">{LETTER_KIND_LABELS[letter.kind]}</p>
+                <p className="text-xs text-gray-500">
+                  {new Date(letter.createdAt).toLocaleString()}
+                  {letter.createdBy && ` · ${letter.createdBy}`}
+                </p>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => handleDownload(letter)}>
+                <Download className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {kind && (
+        <LetterDialog
+          application={application}
+          kind={kind}
+          open={isDialogOpen}
+          onOpenChange={setIsDialogOpen}
+          generatedBy={generatedBy}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  );
+}
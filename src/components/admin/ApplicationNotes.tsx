@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { api, ApiError } from "@/lib/api";
+import type { ApplicationNote } from "@/lib/activity";
+
+interface ApplicationNotesProps {
+  applicationId: string;
+}
+
+export function ApplicationNotes({ applicationId }: ApplicationNotesProps) {
+  const { toast } = useToast();
+  const [notes, setNotes] = useState<ApplicationNote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [text, setText] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    api
+      .getApplicationNotes(applicationId)
+      .then((data) => !cancelled && setNotes(data))
+      .catch(() => !cancelled && setNotes([]))
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [applicationId]);
+
+  const handleAdd = async () => {
+    if (!text.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const note = await api.addApplicationNote(applicationId, text.trim());
+      setNotes((prev) => [...prev, note]);
+      setText("");
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof ApiError ? err.message : "Unable to save note",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading notes...</p>
+      ) : notes.length === 0 ? (
+        <p className="text-sm text-gray-500">No notes yet</p>
+      ) : (
+        <ul className="space-y-3">
+          {notes.map((note) => (
+            <li key={note._id} className="rounded-md border bg-gray-50 p-3">
+              <div className="flex justify-between text-xs text-gray-500 mb-1">
+                <span className="font-medium text-gray-700">{note.author}</span>
+                <span>{new Date(note.createdAt).toLocaleString()}</span>
+              </div>
+              <p className="text-sm whitespace-pre-wrap">{note.text}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-2">
+        <Textarea
+          placeholder="Add a note about this applicant..."
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+        />
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleAdd} disabled={isSaving || !text.trim()}>
+            {isSaving ? "Saving..." : "Add Note"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import type { ReactNode } from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Checkbox } from "@/components/ui/checkbox";
+import { StatusBadge } from "@/components/admin/StatusBadge";
+import { VerifiedBadge } from "@/components/admin/VerifiedBadge";
+import { DuplicateBadge } from "@/components/admin/DuplicateBadge";
+import type { Application, SortOrder } from "@/lib/api";
+import { COLUMNS, getColumnText, type ColumnId } from "@/lib/application-columns";
+import { getStatus } from "@/lib/status";
+import type { DuplicateMatch } from "@/lib/duplicates";
+
+interface ApplicationsTableProps {
+  applications: Application[];
+  columns: ColumnId[];
+  sort: string;
+  order: SortOrder;
+  onSortChange: (sort: string, order: SortOrder) => void;
+  renderActions: (app: Application) => ReactNode;
+  /** Row selection; omit to hide the checkbox column. */
+  selectedIds?: Set<string>;
+  onToggleRow?: (app: Application, selected: boolean) => void;
+  onTogglePage?: (selected: boolean) => void;
+  /** Probable duplicates of a row, flagged next to the applicant's name. */
+  getDuplicates?: (app: Application) => DuplicateMatch[];
+  onCompareDuplicate?: (app: Application, match: DuplicateMatch) => void;
+}
+
+export function ApplicationsTable({
+  applications,
+  columns,
+  sort,
+  order,
+  onSortChange,
+  renderActions,
+  selectedIds,
+  onToggleRow,
+  onTogglePage,
+  getDuplicates,
+  onCompareDuplicate,
+}: ApplicationsTableProps) {
+  const selectable = !!selectedIds;
+  const selectedOnPage = selectable ? applications.filter((a) => selectedIds.has(a._id)).length : 0;
+  const pageState =
+    selectedOnPage === 0 ? false : selectedOnPage === applications.length ? true : "indeterminate";
+
+  const handleSort = (id: ColumnId) => {
+    const column = COLUMNS[id];
+    if (sort === column.sortField) {
+      onSortChange(column.sortField, order === "asc" ? "desc" : "asc");
+    } else {
+      onSortChange(column.sortField, column.defaultOrder);
+    }
+  };
+
+  const duplicateBadge = (app: Application) => {
+    const matches = getDuplicates?.(app) ?? [];
+    if (!matches.length) return null;
+    return (
+      <DuplicateBadge
+        count={matches.length}
+        className="ml-2"
+        onClick={() => onCompareDuplicate?.(app, matches[0])}
+      />
+    );
+  };
+
+  const sortIcon = (id: ColumnId) => {
+    if (sort !== COLUMNS[id].sortField) return <ArrowUpDown className="h-3 w-3 opacity-40" />;
+    return order === "asc" ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />;
+  };
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          {selectable && (
+            <TableHead className="w-10">
+              <Checkbox
+                aria-label="Select all on page"
+                checked={pageState}
+                disabled={applications.length === 0}
+                onCheckedChange={(checked) => onTogglePage?.(checked === true)}
+              />
+            </TableHead>
+          )}
+          {columns.map((id) => (
+            <TableHead
+              key={id}
+              aria-sort={
+                sort === COLUMNS[id].sortField ? (order === "asc" ? "ascending" : "descending") : undefined
+              }
+            >
+              <button
+                type="button"
+                className="inline-flex items-center gap-1 hover:text-foreground"
+                onClick={() => handleSort(id)}
+              >
+                {COLUMNS[id].label}
+                {sortIcon(id)}
+              </button>
+            </TableHead>
+          ))}
+          <TableHead>Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+
+      <TableBody>
+        {applications.length === 0 && (
+          <TableRow>
+            <TableCell colSpan={columns.length + (selectable ? 2 : 1)} className="text-center py-6">
+              No applications found
+            </TableCell>
+          </TableRow>
+        )}
+
+        {applications.map((app) => (
+          <TableRow key={app._id} data-state={selectedIds?.has(app._id) ? "selected" : undefined}>
+            {selectable && (
+              <TableCell>
+                <Checkbox
+                  aria-label={`Select ${app.name}`}
+                  checked={selectedIds.has(app._id)}
+                  onCheckedChange={(checked) => onToggleRow?.(app, checked === true)}
+                />
+              </TableCell>
+            )}
+            {columns.map((id) => (
+              <TableCell key={id} className={id === "address" ? "max-w-xs truncate" : undefined}>
+                {id === "status" ? <StatusBadge status={getStatus(app)} /> : getColumnText(app, id) || "-"}
+                {id === "phoneNumber" && app.phoneVerified && <VerifiedBadge className="ml-2" />}
+                {id === "name" && duplicateBadge(app)}
+              </TableCell>
+            ))}
+            <TableCell className="flex gap-2">{renderActions(app)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { ChevronDown, Download, FileArchive, FileText, Trash2, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  APPLICATION_STATUSES,
+  STATUS_LABELS,
+  requiresReason,
+  type ApplicationStatus,
+} from "@/lib/status";
+import type { BatchPdfFormat } from "@/lib/pdf";
+
+interface BulkActionsBarProps {
+  /** Applications the actions will apply to. */
+  selectedCount: number;
+  /** Number of applications matching the current filters. */
+  matchingCount: number;
+  allMatchingSelected: boolean;
+  /** Rows unchecked since all matching applications were selected. */
+  excludedCount?: number;
+  /** Every row on the current page is selected, so offer to extend to all matching. */
+  canSelectAllMatching: boolean;
+  defaultAssignee?: string | null;
+  busy?: boolean;
+  onSelectAllMatching: () => void;
+  onClearSelection: () => void;
+  onStatusChange: (status: ApplicationStatus, reason: string) => void;
+  onAssign: (assignee: string) => void;
+  onExportCsv: () => void;
+  onDownloadPdfs: (format: BatchPdfFormat) => void;
+  onDelete: () => void;
+}
+
+export function BulkActionsBar({
+  selectedCount,
+  matchingCount,
+  allMatchingSelected,
+  excludedCount = 0,
+  canSelectAllMatching,
+  defaultAssignee,
+  busy,
+  onSelectAllMatching,
+  onClearSelection,
+  onStatusChange,
+  onAssign,
+  onExportCsv,
+  onDownloadPdfs,
+  onDelete,
+}: BulkActionsBarProps) {
+  const [status, setStatus] = useState<ApplicationStatus | "">("");
+  const [reason, setReason] = useState("");
+  const [statusOpen, setStatusOpen] = useState(false);
+  const [assignee, setAssignee] = useState(defaultAssignee ?? "");
+  const [assignOpen, setAssignOpen] = useState(false);
+
+  const statusInvalid = !status || (requiresReason(status) && !reason.trim());
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-md border bg-primary/5 px-4 py-3">
+      <span className="text-sm font-medium">
+        {selectedCount.toLocaleString()} selected
+        {allMatchingSelected &&
+          (excludedCount > 0
+            ? ` (all matching filters except ${excludedCount.toLocaleString()})`
+            : " (all matching filters)")}
+      </span>
+
+      {canSelectAllMatching && !allMatchingSelected && matchingCount > selectedCount && (
+        <Button variant="link" size="sm" className="h-auto p-0" onClick={onSelectAllMatching}>
+          Select all {matchingCount.toLocaleString()} matching
+        </Button>
+      )}
+      <Button variant="link" size="sm" className="h-auto p-0" onClick={onClearSelection}>
+        Clear
+      </Button>
+
+      <div className="ml-auto flex flex-wrap gap-2">
+        <Popover open={statusOpen} onOpenChange={setStatusOpen}>
+          <PopoverTrigger asChild>
+            <Button size="sm" variant="outline" disabled={busy}>
+              Change Status
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-72 space-y-3">
+            <Select value={status} onValueChange={(value) => setStatus(value as ApplicationStatus)}>
+              <SelectTrigger>
+                <SelectValue placeholder="New status" />
+              </SelectTrigger>
+              <SelectContent>
+                {APPLICATION_STATUSES.map((s) => (
+                  <SelectItem key={s} value={s}>
+                    {STATUS_LABELS[s]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {status && (
+              <div className="space-y-1">
+                <Label htmlFor="bulk-status-reason">
+                  Reason {requiresReason(status) ? "*" : "(optional)"}
+                </Label>
+                <Textarea id="bulk-status-reason" value={reason} onChange={(e) => setReason(e.target.value)} />
+              </div>
+            )}
+            <p className="text-xs text-gray-500">
+              Applications that cannot move to this status are skipped and listed afterwards.
+            </p>
+            <Button
+              size="sm"
+              className="w-full"
+              disabled={statusInvalid}
+              onClick={() => {
+                if (!status) return;
+                onStatusChange(status, reason.trim());
+                setStatusOpen(false);
+                setStatus("");
+                setReason("");
+              }}
+            >
+              Apply
+            </Button>
+          </PopoverContent>
+        </Popover>
+
+        <Popover open={assignOpen} onOpenChange={setAssignOpen}>
+          <PopoverTrigger asChild>
+            <Button size="sm" variant="outline" disabled={busy}>
+              <UserPlus className="mr-2 h-4 w-4" /> Assign
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-64 space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="bulk-assignee">Assign to</Label>
+              <Input
+                id="bulk-assignee"
+                placeholder="Admin username"
+                value={assignee}
+                onChange={(e) => setAssignee(e.target.value)}
+              />
+            </div>
+            <Button
+              size="sm"
+              className="w-full"
+              disabled={!assignee.trim()}
+              onClick={() => {
+                onAssign(assignee.trim());
+                setAssignOpen(false);
+              }}
+            >
+              Assign
+            </Button>
+          </PopoverContent>
+        </Popover>
+
+        <Button size="sm" variant="outline" disabled={busy} onClick={onExportCsv}>
+          <Download className="mr-2 h-4 w-4" /> CSV
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="sm" variant="outline" disabled={busy}>
+              <FileText className="mr-2 h-4 w-4" /> PDFs <ChevronDown className="ml-1 h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onSelect={() => onDownloadPdfs("merged")}>
+              <FileText className="mr-2 h-4 w-4" /> Merged PDF with contents
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => onDownloadPdfs("zip")}>
+              <FileArchive className="mr-2 h-4 w-4" /> ZIP of individual PDFs
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button size="sm" variant="destructive" disabled={busy} onClick={onDelete}>
+          <Trash2 className="mr-2 h-4 w-4" /> Delete
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { BulkProgress } from "@/hooks/use-bulk-action";
+
+interface BulkProgressDialogProps {
+  progress: BulkProgress | null;
+  onClose: () => void;
+  /** Offered while the action is running. */
+  onCancel?: () => void;
+}
+
+export function BulkProgressDialog({ progress, onClose, onCancel }: BulkProgressDialogProps) {
+  if (!progress) return null;
+
+  const { title, done, total, failures, finished, cancelled } = progress;
+  const percentage = total === 0 ? 100 : Math.round((done / total) * 100);
+  const succeeded = done - failures.length;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && finished && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {finished
+              ? `${cancelled ? `Cancelled after ${done} of ${total}: ` : ""}${succeeded} of ${total} succeeded${
+                  failures.length ? `, ${failures.length} failed` : ""
+                }`
+              : cancelled
+                ? `Cancelling after ${done} of ${total}...`
+                : `Processing ${done} of ${total}...`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Progress value={percentage} className="h-3" />
+
+        {failures.length > 0 && (
+          <div className="max-h-60 overflow-y-auto rounded-md border">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left">
+                <tr>
+                  <th className="px-3 py-2 font-medium">Application</th>
+                  <th className="px-3 py-2 font-medium">Error</th>
+                </tr>
+              </thead>
+              <tbody>
+                {failures.map((failure) => (
+                  <tr key={failure.id} className="border-t">
+                    <td className="px-3 py-2">{failure.label}</td>
+                    <td className="px-3 py-2 text-destructive">{failure.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <DialogFooter>
+          {!finished && onCancel && (
+            <Button variant="outline" onClick={onCancel} disabled={cancelled}>
+              Cancel
+            </Button>
+          )}
+          <Button onClick={onClose} disabled={!finished}>
+            {finished ? "Close" : "Working..."}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { Columns3, GripVertical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { COLUMNS, type ColumnId } from "@/lib/application-columns";
+import type { ColumnLayout } from "@/hooks/use-column-layout";
+
+interface ColumnChooserProps {
+  layout: ColumnLayout;
+  onToggle: (id: ColumnId) => void;
+  onMove: (id: ColumnId, toIndex: number) => void;
+  onReset: () => void;
+}
+
+export function ColumnChooser({ layout, onToggle, onMove, onReset }: ColumnChooserProps) {
+  const [dragging, setDragging] = useState<ColumnId | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const handleDrop = (index: number) => {
+    if (dragging) onMove(dragging, index);
+    setDragging(null);
+    setOverIndex(null);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Columns3 className="mr-2 h-4 w-4" /> Columns
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64">
+        <p className="text-sm font-medium mb-2">Show and reorder columns</p>
+        <ul className="space-y-1">
+          {layout.order.map((id, index) => (
+            <li
+              key={id}
+              draggable
+              onDragStart={() => setDragging(id)}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setOverIndex(index);
+              }}
+              onDragEnd={() => {
+                setDragging(null);
+                setOverIndex(null);
+              }}
+              onDrop={() => handleDrop(index)}
+              className={cn(
+                "flex items-center gap-2 rounded px-1 py-1 text-sm",
+                dragging === id && "opacity-50",
+                overIndex === index && dragging !== id && "bg-muted"
+              )}
+            >
+              <GripVertical className="h-4 w-4 cursor-grab text-gray-400" />
+              <Checkbox
+                id={`column-${id}`}
+                checked={!layout.hidden.includes(id)}
+                onCheckedChange={() => onToggle(id)}
+              />
+              <label htmlFor={`column-${id}`} className="flex-1 cursor-pointer">
+                {COLUMNS[id].label}
+              </label>
+            </li>
+          ))}
+        </ul>
+        <Button variant="ghost" size="sm" className="w-full mt-2" onClick={onReset}>
+          Reset to default
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,62 @@
+import { format, subDays } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+import type { DateRange } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+interface DateRangePickerProps {
+  value: DateRange | undefined;
+  onChange: (range: DateRange | undefined) => void;
+}
+
+const PRESETS = [
+  { label: "Last 7 days", days: 7 },
+  { label: "Last 30 days", days: 30 },
+  { label: "Last 90 days", days: 90 },
+  { label: "Last year", days: 365 },
+];
+
+export function DateRangePicker({ value, onChange }: DateRangePickerProps) {
+  const label = value?.from
+    ? value.to
+      ? `${format(value.from, "dd MMM yyyy")} – ${format(value.to, "dd MMM yyyy")}`
+      : format(value.from, "dd MMM yyyy")
+    : "All time";
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="justify-start font-normal">
+          <CalendarIcon className="mr-2 h-4 w-4" />
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-auto p-0">
+        <div className="flex flex-wrap gap-1 border-b p-2">
+          {PRESETS.map((preset) => (
+            <Button
+              key={preset.days}
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange({ from: subDays(new Date(), preset.days), to: new Date() })}
+            >
+              {preset.label}
+            </Button>
+          ))}
+          <Button variant="ghost" size="sm" onClick={() => onChange(undefined)}>
+            All time
+          </Button>
+        </div>
+        <Calendar
+          mode="range"
+          numberOfMonths={2}
+          defaultMonth={value?.from}
+          selected={value}
+          onSelect={onChange}
+          disabled={{ after: new Date() }}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import { Download, FileText, Image as ImageIcon, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { api, ApiError } from "@/lib/api";
+import { downloadBlob } from "@/lib/download";
+import { DOCUMENT_LABELS, formatFileSize, type ApplicationDocument } from "@/lib/documents";
+
+interface DocumentViewerProps {
+  applicationId: string;
+  documents: ApplicationDocument[];
+}
+
+interface Preview {
+  document: ApplicationDocument;
+  blob: Blob;
+  url: string;
+}
+
+export function DocumentViewer({ applicationId, documents }: DocumentViewerProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(documents[0]?.id ?? null);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const document = documents.find((d) => d.id === selectedId);
+    if (!document) return;
+
+    let cancelled = false;
+    let url: string | null = null;
+    setPreview(null);
+    setError(null);
+
+    api
+      .getApplicationDocument(applicationId, document.id)
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setPreview({ document, blob, url });
+      })
+      .catch((err) => !cancelled && setError(err instanceof ApiError ? err.message : "Unable to load document"));
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [applicationId, documents, selectedId]);
+
+  if (documents.length === 0) {
+    return <p className="text-sm text-gray-500">No documents uploaded</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <ul className="space-y-1">
+        {documents.map((doc) => {
+          const Icon = doc.contentType.startsWith("image/") ? ImageIcon : FileText;
+          return (
+            <li key={doc.id}>
+              <button
+                type="button"
+                onClick={() => setSelectedId(doc.id)}
+                className={cn(
+                  "flex w-full items-center gap-2 rounded-md px-3 py-2 text-left text-sm hover:bg-gray-100",
+                  doc.id === selectedId && "bg-gray-100"
+                )}
+              >
+                <Icon className="h-4 w-4 shrink-0 text-gray-500" />
+                <span className="font-medium">{DOCUMENT_LABELS[doc.kind] ?? doc.kind}</span>
+                <span className="truncate text-gray-500">{doc.fileName}</span>
+                <span className="ml-auto text-xs text-gray-500">{formatFileSize(doc.size)}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="rounded-md border bg-gray-50">
+        {error && <p className="p-4 text-sm text-red-600">{error}</p>}
+
+        {!error && !preview && (
+          <div className="flex justify-center p-8">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-500" />
+          </div>
+        )}
+
+        {preview && (
+          <div className="space-y-2 p-2">
+            {preview.document.contentType === "application/pdf" ? (
+              <iframe src={preview.url} title={preview.document.fileName} className="h-[60vh] w-full rounded" />
+            ) : (
+              <img
+                src={preview.url}
+                alt={preview.document.fileName}
+                className="mx-auto max-h-[60vh] rounded object-contain"
+              />
+            )}
+            <div className="flex justify-end">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => downloadBlob(preview.blob, preview.document.fileName)}
+              >
+                <Download className="mr-2 h-4 w-4" /> Download
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { Copy } from "lucide-react";
+import { badgeVariants } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface DuplicateBadgeProps {
+  count: number;
+  onClick?: () => void;
+  className?: string;
+}
+
+/** Flags an application that probably repeats another one; click to compare. */
+export function DuplicateBadge({ count, onClick, className }: DuplicateBadgeProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title="Compare with possible duplicates"
+      className={cn(
+        badgeVariants({ variant: "outline" }),
+        "gap-1 whitespace-nowrap border-amber-300 bg-amber-50 text-amber-800 hover:bg-amber-100",
+        className
+      )}
+    >
+      <Copy className="h-3 w-3" />
+      {count > 1 ? `${count} possible duplicates` : "Possible duplicate"}
+    </button>
+  );
+}
@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { StatusBadge } from "@/components/admin/StatusBadge";
+import { cn } from "@/lib/utils";
+import type { Application } from "@/lib/api";
+import { DUPLICATE_REASON_LABELS, type DuplicateMatch } from "@/lib/duplicates";
+import { getLoanCategoryLabel } from "@/lib/loan-categories";
+import { getLoanDetailRows } from "@/lib/loan-details";
+import { formatReferral, getReferrals } from "@/lib/referrals";
+import { getStatus } from "@/lib/status";
+import { maskAadhaar } from "@/lib/validation";
+
+interface DuplicateCompareDialogProps {
+  application: Application | null;
+  match: DuplicateMatch | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Keeps the first application and archives the second into it. */
+  onMerge: (keep: Application, archive: Application) => Promise<void>;
+}
+
+function rowsFor(app: Application): [string, string][] {
+  return [
+    ["Submitted", new Date(app.submittedAt).toLocaleString()],
+    ["Full Name", app.name],
+    ["Phone Number", app.phoneNumber],
+    ["Primary Contact", app.primaryContactNumber],
+    ["DOB", app.dateOfBirth ? new Date(app.dateOfBirth).toLocaleDateString() : ""],
+    ["Gender", app.gender],
+    ["PAN", app.panNumber ?? ""],
+    ["Aadhaar", maskAadhaar(app.aadhaarNumber)],
+    ["Address", app.address],
+    ["PIN Code", app.pinCode ?? ""],
+    ["City / State", [app.city, app.state].filter(Boolean).join(", ")],
+    ["Loan Category", getLoanCategoryLabel(app.loanCategory)],
+    ...getLoanDetailRows(app),
+    ["Referrers", getReferrals(app).map(formatReferral).join("; ")],
+    ["Documents", String(app.documents?.length ?? 0)],
+  ];
+}
+
+export function DuplicateCompareDialog({ application, match, open, onOpenChange, onMerge }: DuplicateCompareDialogProps) {
+  const other = match?.application ?? null;
+  const [keepId, setKeepId] = useState<string>("");
+  const [isMerging, setIsMerging] = useState(false);
+
+  // Default to keeping whichever was submitted first
+  useEffect(() => {
+    if (!application || !other) return;
+    const older = new Date(application.submittedAt) <= new Date(other.submittedAt) ? application : other;
+    setKeepId(older._id);
+  }, [application, other]);
+
+  if (!application || !other) return null;
+
+  const pair = [application, other];
+  const left = new Map(rowsFor(application));
+  const right = new Map(rowsFor(other));
+  const labels = [...new Set([...left.keys(), ...right.keys()])];
+
+  const handleMerge = async () => {
+    const keep = pair.find((app) => app._id === keepId);
+    const archive = pair.find((app) => app._id !== keepId);
+    setIsMerging(true);
+    try {
+      await onMerge(keep, archive);
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Compare Possible Duplicates</DialogTitle>
+          <DialogDescription className="flex flex-wrap gap-2 pt-1">
+            {match.reasons.map((reason) => (
+              <Badge key={reason} variant="secondary">
+                {DUPLICATE_REASON_LABELS[reason]}
+              </Badge>
+            ))}
+            <span className="text-xs text-gray-500 self-center">{Math.round(match.score * 100)}% match</span>
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={keepId} onValueChange={setKeepId}>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="w-40" />
+                {pair.map((app) => (
+                  <th key={app._id} className="p-2 text-left font-normal">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <RadioGroupItem value={app._id} />
+                      <span className="font-semibold">Keep this one</span>
+                      <StatusBadge status={getStatus(app)} />
+                    </label>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {labels.map((label) => {
+                const a = left.get(label) ?? "";
+                const b = right.get(label) ?? "";
+                const differs = a.trim().toLowerCase() !== b.trim().toLowerCase();
+                return (
+                  <tr key={label} className="border-b last:border-0">
+                    <td className="p-2 text-gray-500">{label}</td>
+                    {[a, b].map((value, i) => (
+                      <td key={i} className={cn("p-2 align-top", differs && "bg-amber-50")}>
+                        {value || "-"}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </RadioGroup>
+
+        <p className="text-sm text-gray-500">
+          Merging keeps the selected application. The other is archived with its status history, notes and
+          activity, and linked to the one kept.
+        </p>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleMerge} disabled={isMerging || !keepId}>
+            {isMerging ? "Merging..." : "Merge"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
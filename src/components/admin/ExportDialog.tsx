@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { FileDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { api, ApiError, type ApplicationQuery } from "@/lib/api";
+import { COLUMNS, type ColumnId } from "@/lib/application-columns";
+import { buildExportFilename, exportApplications, type ExportFormat } from "@/lib/export";
+
+interface ExportDialogProps {
+  query: ApplicationQuery;
+  /** Number of applications matching the filters. */
+  total: number;
+  /** Columns pre-selected when the dialog opens, normally the visible ones. */
+  defaultColumns: ColumnId[];
+  /** Every column in the admin's saved table order; exports follow it. */
+  columnOrder: ColumnId[];
+}
+
+export function ExportDialog({ query, total, defaultColumns, columnOrder }: ExportDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [columns, setColumns] = useState<ColumnId[]>(defaultColumns);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (open) setColumns(defaultColumns);
+  }, [open, defaultColumns]);
+
+  const toggleColumn = (id: ColumnId, checked: boolean) => {
+    // Keep the table order regardless of click order
+    setColumns((prev) => columnOrder.filter((c) => (c === id ? checked : prev.includes(c))));
+  };
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+      const { page, pageSize, ...filters } = query;
+      const applications = await api.getAllApplications(filters);
+      await exportApplications(applications, columns, exportFormat, buildExportFilename(filters, exportFormat));
+      toast({ title: `Exported ${applications.length} applications` });
+      setOpen(false);
+    } catch (err) {
+      toast({
+        title: "Export Failed",
+        description: err instanceof ApiError ? err.message : "Unable to export applications",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={total === 0}>
+          <FileDown className="mr-2 h-4 w-4" /> Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Applications</DialogTitle>
+          <DialogDescription>
+            Exports all {total.toLocaleString()} applications matching the current filters.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Format</p>
+            <RadioGroup
+              value={exportFormat}
+              onValueChange={(value) => setExportFormat(value as ExportFormat)}
+              className="flex gap-6"
+            >
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="csv" id="export-csv" />
+                <Label htmlFor="export-csv">CSV</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="xlsx" id="export-xlsx" />
+                <Label htmlFor="export-xlsx">Excel (XLSX)</Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Columns</p>
+            <div className="grid grid-cols-2 gap-2">
+              {columnOrder.map((id) => (
+                <div key={id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`export-column-${id}`}
+                    checked={columns.includes(id)}
+                    onCheckedChange={(checked) => toggleColumn(id, checked === true)}
+                  />
+                  <Label htmlFor={`export-column-${id}`} className="font-normal">
+                    {COLUMNS[id].label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleExport} disabled={isExporting || columns.length === 0}>
+            {isExporting ? "Exporting..." : "Export"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
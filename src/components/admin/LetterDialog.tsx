@@ -0,0 +1,179 @@
+import { useEffect, useMemo, useState, type ChangeEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useLetterTemplates } from "@/hooks/use-letter-templates";
+import { api, ApiError, type Application } from "@/lib/api";
+import { downloadBlob } from "@/lib/download";
+import {
+  LETTER_KIND_LABELS,
+  getDefaultLetterTerms,
+  renderLetter,
+  type ApplicationLetter,
+  type LetterKind,
+  type LetterTerms,
+} from "@/lib/letters";
+
+interface LetterDialogProps {
+  application: Application;
+  kind: LetterKind;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Staff member shown in the PDF footer. */
+  generatedBy?: string | null;
+  onSaved: (letter: ApplicationLetter) => void;
+}
+
+type TermsInput = Record<keyof LetterTerms, string>;
+
+const toInput = (terms: LetterTerms): TermsInput => ({
+  amount: terms.amount ? String(terms.amount) : "",
+  annualRate: String(terms.annualRate),
+  tenureMonths: terms.tenureMonths ? String(terms.tenureMonths) : "",
+  conditions: terms.conditions,
+  reason: terms.reason,
+});
+
+function validate(kind: LetterKind, input: TermsInput): string | null {
+  if (kind === "rejection") return input.reason.trim() ? null : "Please give the reason for rejection";
+
+  const amount = Number(input.amount);
+  const rate = Number(input.annualRate);
+  const tenure = Number(input.tenureMonths);
+  if (!input.amount || Number.isNaN(amount) || amount <= 0) return "Please enter the sanctioned amount";
+  if (input.annualRate === "" || Number.isNaN(rate) || rate < 0 || rate > 50) return "Please enter a valid rate";
+  if (!Number.isInteger(tenure) || tenure <= 0) return "Please enter the tenure in whole months";
+  return null;
+}
+
+export function LetterDialog({ application, kind, open, onOpenChange, generatedBy, onSaved }: LetterDialogProps) {
+  const { toast } = useToast();
+  const { templates, loading } = useLetterTemplates();
+  const [input, setInput] = useState<TermsInput>(() => toInput(getDefaultLetterTerms(application)));
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  useEffect(() => {
+    if (open) setInput(toInput(getDefaultLetterTerms(application)));
+  }, [open, application]);
+
+  const error = validate(kind, input);
+  const letter = useMemo(
+    () =>
+      renderLetter(application, templates[kind], {
+        amount: Number(input.amount) || 0,
+        annualRate: Number(input.annualRate) || 0,
+        tenureMonths: Number(input.tenureMonths) || 0,
+        conditions: input.conditions,
+        reason: input.reason,
+      }),
+    [application, templates, kind, input]
+  );
+
+  const set = (field: keyof TermsInput) => (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setInput((current) => ({ ...current, [field]: e.target.value }));
+
+  const handleGenerate = async () => {
+    if (error) return;
+
+    setIsGenerating(true);
+    try {
+      const { generateLetterPDF } = await import("@/lib/pdf");
+      const pdf = await generateLetterPDF(letter, { generatedBy: generatedBy ?? undefined });
+      const fileName = `${kind}-letter_${application._id}.pdf`;
+      downloadBlob(pdf, fileName);
+
+      try {
+        onSaved(await api.saveApplicationLetter(application._id, pdf, { kind, subject: letter.subject, fileName }));
+        toast({ title: `${LETTER_KIND_LABELS[kind]} generated` });
+        onOpenChange(false);
+      } catch (err) {
+        toast({
+          title: "Letter not saved",
+          description: `The letter was downloaded, but its copy could not be kept on the application. ${
+            err instanceof ApiError ? err.message : ""
+          }`.trim(),
+          variant: "destructive",
+        });
+      }
+    } catch {
+      toast({ title: "Error", description: "Unable to generate the letter", variant: "destructive" });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{LETTER_KIND_LABELS[kind]}</DialogTitle>
+          <DialogDescription>
+            Confirm the details below. The letter wording comes from the templates in Settings.
+          </DialogDescription>
+        </DialogHeader>
+
+        {kind === "sanction" ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="letter-amount">Sanctioned amount (₹)</Label>
+                <Input id="letter-amount" inputMode="numeric" value={input.amount} onChange={set("amount")} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="letter-rate">Rate (% p.a.)</Label>
+                <Input id="letter-rate" inputMode="decimal" value={input.annualRate} onChange={set("annualRate")} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="letter-tenure">Tenure (months)</Label>
+                <Input
+                  id="letter-tenure"
+                  inputMode="numeric"
+                  value={input.tenureMonths}
+                  onChange={set("tenureMonths")}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="letter-conditions">Conditions (one per line)</Label>
+              <Textarea id="letter-conditions" rows={4} value={input.conditions} onChange={set("conditions")} />
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-1">
+            <Label htmlFor="letter-reason">Reason for rejection *</Label>
+            <Textarea id="letter-reason" rows={3} value={input.reason} onChange={set("reason")} />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Preview</h4>
+          <div className="max-h-72 overflow-y-auto rounded-md border bg-gray-50 p-4 text-sm space-y-3">
+            <p className="font-semibold">Subject: {letter.subject}</p>
+            <p className="whitespace-pre-wrap">{letter.body}</p>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleGenerate} disabled={!!error || loading || isGenerating}>
+            {isGenerating ? "Generating..." : "Generate PDF"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,134 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { useLetterTemplates } from "@/hooks/use-letter-templates";
+import { ApiError } from "@/lib/api";
+import {
+  DEFAULT_LETTER_TEMPLATES,
+  LETTER_KINDS,
+  LETTER_KIND_LABELS,
+  LETTER_PLACEHOLDERS,
+  findUnknownPlaceholders,
+  type LetterKind,
+  type LetterTemplate,
+} from "@/lib/letters";
+
+/** Edits the wording of the sanction and rejection letters for everyone. */
+export function LetterTemplatesEditor() {
+  const { toast } = useToast();
+  const { templates, loading, save } = useLetterTemplates();
+  const [drafts, setDrafts] = useState(templates);
+  const [savingKind, setSavingKind] = useState<LetterKind | null>(null);
+
+  const appliedRef = useRef(templates);
+
+  // Pick up newly loaded or saved wording, only for the kinds it changed, so
+  // unsaved edits on the other tab stay as typed
+  useEffect(() => {
+    const previous = appliedRef.current;
+    appliedRef.current = templates;
+    setDrafts((current) => {
+      const next = { ...current };
+      LETTER_KINDS.forEach((kind) => {
+        if (templates[kind] !== previous[kind]) next[kind] = templates[kind];
+      });
+      return next;
+    });
+  }, [templates]);
+
+  const update = (kind: LetterKind, changes: Partial<LetterTemplate>) =>
+    setDrafts((current) => ({ ...current, [kind]: { ...current[kind], ...changes } }));
+
+  const handleSave = async (kind: LetterKind) => {
+    setSavingKind(kind);
+    try {
+      await save(drafts[kind]);
+      toast({ title: "Template saved", description: `${LETTER_KIND_LABELS[kind]} wording updated` });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof ApiError ? err.message : "Unable to save the template",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingKind(null);
+    }
+  };
+
+  if (loading) return <p className="text-sm text-gray-500">Loading templates...</p>;
+
+  return (
+    <Tabs defaultValue={LETTER_KINDS[0]}>
+      <TabsList>
+        {LETTER_KINDS.map((kind) => (
+          <TabsTrigger key={kind} value={kind}>
+            {LETTER_KIND_LABELS[kind]}
+          </TabsTrigger>
+        ))}
+      </TabsList>
+
+      {LETTER_KINDS.map((kind) => {
+        const draft = drafts[kind];
+        const unknown = findUnknownPlaceholders(`${draft.subject} ${draft.body}`);
+        const changed = draft.subject !== templates[kind].subject || draft.body !== templates[kind].body;
+
+        return (
+          <TabsContent key={kind} value={kind} className="space-y-4 pt-2">
+            <div className="space-y-1">
+              <Label htmlFor={`${kind}-subject`}>Subject</Label>
+              <Input
+                id={`${kind}-subject`}
+                value={draft.subject}
+                onChange={(e) => update(kind, { subject: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`${kind}-body`}>Letter text</Label>
+              <Textarea
+                id={`${kind}-body`}
+                rows={14}
+                className="font-mono text-sm"
+                value={draft.body}
+                onChange={(e) => update(kind, { body: e.target.value })}
+              />
+            </div>
+
+            {unknown.length > 0 && (
+              <p className="text-sm text-destructive">
+                Unknown placeholders: {unknown.map((key) => `{{${key}}}`).join(", ")}
+              </p>
+            )}
+
+            <details className="text-sm">
+              <summary className="cursor-pointer text-gray-600">Available placeholders</summary>
+              <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+                {LETTER_PLACEHOLDERS.map((placeholder) => (
+                  <div key={placeholder.key} className="contents">
+                    <dt className="font-mono">{`{{${placeholder.key}}}`}</dt>
+                    <dd className="text-gray-600">{placeholder.description}</dd>
+                  </div>
+                ))}
+              </dl>
+            </details>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => update(kind, DEFAULT_LETTER_TEMPLATES[kind])}>
+                Reset to Default
+              </Button>
+              <Button
+                onClick={() => handleSave(kind)}
+                disabled={!changed || unknown.length > 0 || savingKind === kind}
+              >
+                {savingKind === kind ? "Saving..." : "Save Template"}
+              </Button>
+            </div>
+          </TabsContent>
+        );
+      })}
+    </Tabs>
+  );
+}
@@ -0,0 +1,16 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { STATUS_BADGE_CLASSES, STATUS_LABELS, type ApplicationStatus } from "@/lib/status";
+
+interface StatusBadgeProps {
+  status: ApplicationStatus;
+  className?: string;
+}
+
+export function StatusBadge({ status, className }: StatusBadgeProps) {
+  return (
+    <Badge variant="outline" className={cn("whitespace-nowrap", STATUS_BADGE_CLASSES[status], className)}>
+      {STATUS_LABELS[status]}
+    </Badge>
+  );
+}
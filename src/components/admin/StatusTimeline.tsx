@@ -0,0 +1,41 @@
+import { StatusBadge } from "@/components/admin/StatusBadge";
+import type { StatusHistoryEntry } from "@/lib/status";
+
+interface StatusTimelineProps {
+  history: StatusHistoryEntry[];
+}
+
+export function StatusTimeline({ history }: StatusTimelineProps) {
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500">No status changes yet</p>;
+  }
+
+  // Newest first
+  const entries = [...history].sort(
+    (a, b) => new Date(b.changedAt).getTime() - new Date(a.changedAt).getTime()
+  );
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+      {entries.map((entry, index) => (
+        <li key={`${entry.changedAt}-${index}`} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300" />
+          <div className="flex items-center gap-2 flex-wrap">
+            {entry.from && (
+              <>
+                <StatusBadge status={entry.from} />
+                <span className="text-gray-400">→</span>
+              </>
+            )}
+            <StatusBadge status={entry.to} />
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            {new Date(entry.changedAt).toLocaleString()}
+            {entry.changedBy && ` · ${entry.changedBy}`}
+          </p>
+          {entry.reason && <p className="text-sm mt-1">{entry.reason}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
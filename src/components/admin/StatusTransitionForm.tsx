@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  STATUS_LABELS,
+  STATUS_TRANSITIONS,
+  requiresReason,
+  type ApplicationStatus,
+} from "@/lib/status";
+
+interface StatusTransitionFormProps {
+  current: ApplicationStatus;
+  onSubmit: (to: ApplicationStatus, reason: string) => Promise<void>;
+}
+
+export function StatusTransitionForm({ current, onSubmit }: StatusTransitionFormProps) {
+  const [target, setTarget] = useState<ApplicationStatus | "">("");
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const options = STATUS_TRANSITIONS[current];
+
+  if (options.length === 0) {
+    return <p className="text-sm text-gray-500">No further status changes are possible</p>;
+  }
+
+  const handleSubmit = async () => {
+    if (!target) {
+      setError("Please select a new status");
+      return;
+    }
+    if (requiresReason(target) && !reason.trim()) {
+      setError("A reason is required for this status");
+      return;
+    }
+
+    setError("");
+    setIsSaving(true);
+    try {
+      await onSubmit(target, reason.trim());
+      setTarget("");
+      setReason("");
+    } catch {
+      // The caller reports the error; keep the chosen status and reason for another try
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Select value={target} onValueChange={(value) => setTarget(value as ApplicationStatus)}>
+          <SelectTrigger className="sm:w-56">
+            <SelectValue placeholder="Move to..." />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map((status) => (
+              <SelectItem key={status} value={status}>
+                {STATUS_LABELS[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={handleSubmit} disabled={isSaving}>
+          {isSaving ? "Updating..." : "Update Status"}
+        </Button>
+      </div>
+
+      {target && (
+        <div className="space-y-1">
+          <Label htmlFor="status-reason">
+            Reason {requiresReason(target) ? "*" : "(optional)"}
+          </Label>
+          <Textarea
+            id="status-reason"
+            placeholder="Add a note for this change"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+      )}
+
+      {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { BadgeCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface VerifiedBadgeProps {
+  className?: string;
+}
+
+/** Marks a phone number the applicant confirmed by OTP. */
+export function VerifiedBadge({ className }: VerifiedBadgeProps) {
+  return (
+    <Badge
+      variant="outline"
+      title="Verified by OTP"
+      className={cn("gap-1 whitespace-nowrap border-green-200 bg-green-50 text-green-700", className)}
+    >
+      <BadgeCheck className="h-3 w-3" />
+      Verified
+    </Badge>
+  );
+}
@@ -0,0 +1,113 @@
+import { useFormContext } from "react-hook-form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { PhoneVerification } from "@/components/loan-form/PhoneVerification";
+import { usePinCodeAutofill } from "@/hooks/use-pin-autofill";
+import type { ApplicationFormValues } from "@/lib/application-schema";
+
+export function ContactStep() {
+  const form = useFormContext<ApplicationFormValues>();
+  usePinCodeAutofill(form);
+
+  return (
+    <div className="space-y-6">
+      {/* Phone */}
+      <FormField
+        control={form.control}
+        name="phoneNumber"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Phone Number *</FormLabel>
+            <FormControl>
+              <Input placeholder="+91 1234567890" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <PhoneVerification />
+
+      {/* Primary Contact */}
+      <FormField
+        control={form.control}
+        name="primaryContactNumber"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Primary Contact Number *</FormLabel>
+            <FormControl>
+              <Input placeholder="+91 1234567890" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {/* Address */}
+      <FormField
+        control={form.control}
+        name="address"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Address *</FormLabel>
+            <FormControl>
+              <Textarea
+                placeholder="Enter your complete address"
+                className="min-h-[100px]"
+                {...field}
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <div className="grid md:grid-cols-3 gap-6">
+        {/* PIN Code */}
+        <FormField
+          control={form.control}
+          name="pinCode"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>PIN Code *</FormLabel>
+              <FormControl>
+                <Input placeholder="560001" inputMode="numeric" maxLength={6} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* City */}
+        <FormField
+          control={form.control}
+          name="city"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>City *</FormLabel>
+              <FormControl>
+                <Input placeholder="City" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* State */}
+        <FormField
+          control={form.control}
+          name="state"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>State *</FormLabel>
+              <FormControl>
+                <Input placeholder="State" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+    </div>
+  );
+}
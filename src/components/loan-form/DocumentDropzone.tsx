@@ -0,0 +1,187 @@
+import { useEffect, useRef, useState, type DragEvent } from "react";
+import { CheckCircle2, FileText, Loader2, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import { api, ApiError } from "@/lib/api";
+import {
+  ACCEPT_ATTRIBUTE,
+  DOCUMENT_LABELS,
+  compressImage,
+  formatFileSize,
+  validateFile,
+  type ApplicationDocument,
+  type DocumentRequirement,
+} from "@/lib/documents";
+
+interface PendingUpload {
+  key: string;
+  fileName: string;
+  progress: number;
+  controller: AbortController;
+}
+
+interface DocumentDropzoneProps {
+  requirement: DocumentRequirement;
+  documents: ApplicationDocument[];
+  onUploaded: (document: ApplicationDocument) => void;
+  onRemove: (id: string) => void;
+}
+
+export function DocumentDropzone({ requirement, documents, onUploaded, onRemove }: DocumentDropzoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const uploadsRef = useRef(uploads);
+  uploadsRef.current = uploads;
+
+  // Leaving the step mid-upload cancels it
+  useEffect(() => () => uploadsRef.current.forEach((u) => u.controller.abort()), []);
+
+  const canAddMore = requirement.multiple || documents.length + uploads.length === 0;
+
+  const updateProgress = (key: string, progress: number) =>
+    setUploads((list) => list.map((u) => (u.key === key ? { ...u, progress } : u)));
+
+  const uploadFile = async (original: File) => {
+    const file = await compressImage(original);
+    const error = validateFile(file);
+    if (error) {
+      setErrors((list) => [...list, error]);
+      return;
+    }
+
+    const upload: PendingUpload = {
+      key: `${file.name}-${Date.now()}-${Math.random()}`,
+      fileName: file.name,
+      progress: 0,
+      controller: new AbortController(),
+    };
+    setUploads((list) => [...list, upload]);
+
+    try {
+      const document = await api.uploadDocument(file, requirement.kind, {
+        signal: upload.controller.signal,
+        onProgress: (progress) => updateProgress(upload.key, progress),
+      });
+      onUploaded(document);
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === "AbortError")) {
+        const message = err instanceof ApiError ? err.message : `Unable to upload ${file.name}`;
+        setErrors((list) => [...list, message]);
+      }
+    } finally {
+      setUploads((list) => list.filter((u) => u.key !== upload.key));
+    }
+  };
+
+  const handleFiles = (files: FileList | null) => {
+    if (!files?.length) return;
+    setErrors([]);
+    const picked = requirement.multiple ? Array.from(files) : [files[0]];
+    picked.forEach(uploadFile);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragging(false);
+    if (canAddMore) handleFiles(event.dataTransfer.files);
+  };
+
+  const done = documents.length > 0;
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="font-medium text-sm">
+          {DOCUMENT_LABELS[requirement.kind]}
+          {requirement.required ? " *" : <span className="text-muted-foreground font-normal"> (optional)</span>}
+        </p>
+        {done && <CheckCircle2 className="h-4 w-4 text-green-600" />}
+      </div>
+
+      {documents.map((doc) => (
+        <div key={doc.id} className="flex items-center gap-2 rounded-md bg-muted/50 px-3 py-2 text-sm">
+          <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <span className="truncate flex-1">{doc.fileName}</span>
+          <span className="text-xs text-muted-foreground">{formatFileSize(doc.size)}</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => onRemove(doc.id)}
+            aria-label={`Remove ${doc.fileName}`}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      {uploads.map((upload) => (
+        <div key={upload.key} className="space-y-1 rounded-md bg-muted/50 px-3 py-2 text-sm">
+          <div className="flex items-center gap-2">
+            <Loader2 className="h-4 w-4 shrink-0 animate-spin text-muted-foreground" />
+            <span className="truncate flex-1">{upload.fileName}</span>
+            <span className="text-xs text-muted-foreground">{upload.progress}%</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => upload.controller.abort()}
+              aria-label={`Cancel ${upload.fileName}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <Progress value={upload.progress} className="h-1" />
+        </div>
+      ))}
+
+      {canAddMore && (
+        <div
+          role="button"
+          tabIndex={0}
+          onClick={() => inputRef.current?.click()}
+          onKeyDown={(e) => (e.key === "Enter" || e.key === " ") && inputRef.current?.click()}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={handleDrop}
+          className={cn(
+            "flex flex-col items-center gap-1 rounded-md border-2 border-dashed p-4 text-center text-sm cursor-pointer transition-colors",
+            dragging ? "border-primary bg-primary/5" : "border-muted-foreground/25 hover:border-primary/50"
+          )}
+        >
+          <Upload className="h-5 w-5 text-muted-foreground" />
+          <span>
+            Drag {requirement.multiple ? "files" : "a file"} here or <span className="text-primary underline">browse</span>
+          </span>
+          <span className="text-xs text-muted-foreground">JPG, PNG or PDF, up to 5 MB</span>
+          <input
+            ref={inputRef}
+            type="file"
+            className="hidden"
+            accept={ACCEPT_ATTRIBUTE}
+            multiple={requirement.multiple}
+            onChange={(e) => {
+              handleFiles(e.target.files);
+              e.target.value = "";
+            }}
+          />
+        </div>
+      )}
+
+      {errors.map((error) => (
+        <p key={error} className="text-sm font-medium text-destructive">
+          {error}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { useFormContext } from "react-hook-form";
+import { FormField, FormItem, FormMessage } from "@/components/ui/form";
+import { DocumentDropzone } from "@/components/loan-form/DocumentDropzone";
+import type { ApplicationFormValues } from "@/lib/application-schema";
+import { getDocumentRequirements, type ApplicationDocument } from "@/lib/documents";
+
+export function DocumentsStep() {
+  const form = useFormContext<ApplicationFormValues>();
+  const [category, employmentType] = form.watch(["loanCategory", "employmentType"]);
+  const requirements = getDocumentRequirements(category, employmentType);
+
+  return (
+    <FormField
+      control={form.control}
+      name="documents"
+      render={({ field }) => {
+        const documents: ApplicationDocument[] = field.value ?? [];
+        // Uploads finish independently, so always build on the latest value
+        const current = () => form.getValues("documents") ?? [];
+
+        return (
+          <FormItem className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Upload clear photos or scans of the documents below. Photos are compressed automatically before
+              uploading.
+            </p>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              {requirements.map((requirement) => (
+                <DocumentDropzone
+                  key={requirement.kind}
+                  requirement={requirement}
+                  documents={documents.filter((d) => d.kind === requirement.kind)}
+                  onUploaded={(doc) => field.onChange([...current(), doc])}
+                  onRemove={(id) => field.onChange(current().filter((d) => d.id !== id))}
+                />
+              ))}
+            </div>
+
+            <FormMessage />
+          </FormItem>
+        );
+      }}
+    />
+  );
+}
@@ -0,0 +1,33 @@
+import { History } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { DRAFT_EXPIRY_DAYS } from "@/config";
+
+interface DraftBannerProps {
+  savedAt: string;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+export function DraftBanner({ savedAt, onResume, onDiscard }: DraftBannerProps) {
+  return (
+    <Alert className="mb-6 border-primary/40 bg-primary/5">
+      <History className="h-4 w-4" />
+      <AlertTitle>Resume your application?</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>
+          You started an application on this device on {new Date(savedAt).toLocaleString()}. Saved
+          drafts are deleted automatically after {DRAFT_EXPIRY_DAYS} days.
+        </p>
+        <div className="flex gap-2">
+          <Button size="sm" variant="finance" onClick={onResume}>
+            Resume
+          </Button>
+          <Button size="sm" variant="outline" onClick={onDiscard}>
+            Discard and start over
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,194 @@
+import { useFormContext } from "react-hook-form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import type { ApplicationFormValues } from "@/lib/application-schema";
+import { LOAN_CATEGORIES } from "@/lib/loan-categories";
+import { EMPLOYMENT_TYPES, formatCurrency, getLoanSection } from "@/lib/loan-details";
+import { EMI_LIMITS, getDefaultRate } from "@/lib/emi";
+import { EmiCalculator, type EmiInputs } from "@/components/EmiCalculator";
+
+type FieldName = Exclude<keyof ApplicationFormValues, "documents" | "referrals">;
+
+interface DetailFieldProps {
+  name: FieldName;
+  label: string;
+  placeholder?: string;
+  numeric?: boolean;
+  /** Shows the typed amount formatted in rupees under the input. */
+  currency?: boolean;
+}
+
+function DetailField({ name, label, placeholder, numeric, currency }: DetailFieldProps) {
+  const form = useFormContext<ApplicationFormValues>();
+
+  return (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label} *</FormLabel>
+          <FormControl>
+            <Input
+              placeholder={placeholder}
+              type={numeric ? "number" : "text"}
+              inputMode={numeric ? "numeric" : undefined}
+              min={numeric ? 0 : undefined}
+              {...field}
+            />
+          </FormControl>
+          {currency && field.value && <FormDescription>{formatCurrency(field.value)}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+export function LoanStep() {
+  const form = useFormContext<ApplicationFormValues>();
+  const category = form.watch("loanCategory");
+  const showOtherField = category === "other";
+  const section = getLoanSection(category);
+
+  // The calculator edits the same amount and tenure fields as the inputs above it
+  const [loanAmount, tenureMonths, interestRate, monthlyIncome] = form.watch([
+    "loanAmount",
+    "tenureMonths",
+    "interestRate",
+    "monthlyIncome",
+  ]);
+  const emiInputs: EmiInputs = {
+    amount: Number(loanAmount) || EMI_LIMITS.amount.min,
+    annualRate: Number(interestRate) || getDefaultRate(category),
+    tenureMonths: Number(tenureMonths) || EMI_LIMITS.tenureMonths.min,
+  };
+
+  const handleEmiChange = (next: EmiInputs) => {
+    // Only the slider that moved is written, so untouched empty fields stay empty.
+    // Slider values are always in range, so validating clears any earlier error.
+    const options = { shouldDirty: true, shouldValidate: true };
+    if (next.amount !== emiInputs.amount) form.setValue("loanAmount", String(next.amount), options);
+    if (next.tenureMonths !== emiInputs.tenureMonths) form.setValue("tenureMonths", String(next.tenureMonths), options);
+    if (next.annualRate !== emiInputs.annualRate) form.setValue("interestRate", String(next.annualRate), options);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Loan Category */}
+      <FormField
+        control={form.control}
+        name="loanCategory"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Loan Category *</FormLabel>
+            <Select onValueChange={field.onChange} value={field.value}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select loan category" />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {LOAN_CATEGORIES.map((category) => (
+                  <SelectItem key={category.value} value={category.value}>
+                    {category.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {/* Other Loan Category Input */}
+      {showOtherField && (
+        <FormField
+          control={form.control}
+          name="loanCategoryOther"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Specify Loan Category *</FormLabel>
+              <FormControl>
+                <Input placeholder="Enter loan type" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+
+      <div className="grid sm:grid-cols-2 gap-6">
+        <DetailField name="loanAmount" label="Loan Amount (₹)" placeholder="e.g. 500000" numeric currency />
+        <DetailField name="tenureMonths" label="Tenure (months)" placeholder="e.g. 60" numeric />
+        <DetailField name="monthlyIncome" label="Monthly Income (₹)" placeholder="e.g. 45000" numeric currency />
+
+        <FormField
+          control={form.control}
+          name="employmentType"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Employment Type *</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select employment type" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {EMPLOYMENT_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <fieldset className="rounded-lg border p-4">
+        <legend className="px-1 text-sm font-semibold">EMI Calculator</legend>
+        <p className="text-sm text-muted-foreground mb-4">
+          Adjust the sliders to see your monthly payment. The plan you choose is sent with your application.
+        </p>
+        <EmiCalculator value={emiInputs} onChange={handleEmiChange} monthlyIncome={Number(monthlyIncome)} />
+      </fieldset>
+
+      {/* Category-specific details */}
+      {section === "housing" && (
+        <fieldset className="rounded-lg border p-4 space-y-4">
+          <legend className="px-1 text-sm font-semibold">Property Details</legend>
+          <DetailField name="propertyValue" label="Property Value (₹)" placeholder="e.g. 4000000" numeric currency />
+        </fieldset>
+      )}
+
+      {section === "vehicle" && (
+        <fieldset className="rounded-lg border p-4 grid sm:grid-cols-3 gap-4">
+          <legend className="px-1 text-sm font-semibold">Vehicle Details</legend>
+          <DetailField name="vehicleMake" label="Make" placeholder="e.g. Maruti Suzuki" />
+          <DetailField name="vehicleModel" label="Model" placeholder="e.g. Swift" />
+          <DetailField name="vehicleYear" label="Year" placeholder={String(new Date().getFullYear())} numeric />
+        </fieldset>
+      )}
+
+      {section === "business" && (
+        <fieldset className="rounded-lg border p-4 grid sm:grid-cols-2 gap-4">
+          <legend className="px-1 text-sm font-semibold">Business Details</legend>
+          <DetailField name="businessTurnover" label="Annual Turnover (₹)" placeholder="e.g. 2500000" numeric currency />
+          <DetailField name="businessVintageYears" label="Years in Business" placeholder="e.g. 5" numeric />
+        </fieldset>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { CloudUpload, PencilLine, RefreshCw, Trash2 } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useSubmissionQueue } from "@/hooks/use-submission-queue";
+import { getLoanCategoryLabel } from "@/lib/loan-categories";
+import { formatCurrency } from "@/lib/loan-details";
+import { storage } from "@/lib/storage";
+import type { QueuedSubmission } from "@/lib/submission-queue";
+
+function describe(item: QueuedSubmission, syncing: boolean) {
+  if (item.rejected) return `Not accepted: ${item.lastError}`;
+  if (syncing) return "Uploading...";
+  return `${item.lastError ?? "Not sent yet"}. Retrying at ${new Date(item.nextAttemptAt).toLocaleTimeString()}`;
+}
+
+interface PendingSubmissionsProps {
+  /** Called once a rejected application has been moved back into the form's draft. */
+  onReopen?: () => void;
+}
+
+/** Applications saved on this device while offline, until they have been uploaded. */
+export function PendingSubmissions({ onReopen }: PendingSubmissionsProps) {
+  const navigate = useNavigate();
+  const { items, syncing, retry, discard, reopen } = useSubmissionQueue();
+  const [discarding, setDiscarding] = useState<QueuedSubmission | null>(null);
+
+  if (items.length === 0) return null;
+
+  const handleDiscard = async () => {
+    if (discarding) await discard(discarding.id).catch(() => undefined);
+    setDiscarding(null);
+  };
+
+  const handleReopen = async (item: QueuedSubmission) => {
+    if (storage.getDraft() && !confirm("This replaces the application saved as a draft on this device. Continue?")) {
+      return;
+    }
+    await reopen(item.id).catch(() => undefined);
+    if (onReopen) onReopen();
+    else navigate("/loan-form");
+  };
+
+  return (
+    <Alert className="mb-6 border-amber-400 bg-amber-50">
+      <CloudUpload className="h-4 w-4" />
+      <AlertTitle>Pending upload ({items.length})</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>
+          These applications are saved on this device and will be uploaded automatically when the connection
+          returns. Keep this browser's data until they have gone. Reopen one that was not accepted to correct
+          it and submit it again.
+        </p>
+
+        <ul className="space-y-2">
+          {items.map((item) => (
+            <li key={item.id} className="flex items-start justify-between gap-4 rounded-md border bg-background p-3">
+              <div className="text-sm">
+                <p className="font-medium">
+                  {item.payload.name} · {getLoanCategoryLabel(item.payload.loanCategory)} ·{" "}
+                  {formatCurrency(item.payload.loanAmount)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Saved {new Date(item.queuedAt).toLocaleString()}
+                  {item.attempts > 1 && ` · ${item.attempts} attempts`}
+                </p>
+                <p className={item.rejected ? "text-xs text-destructive" : "text-xs text-muted-foreground"}>
+                  {describe(item, syncing)}
+                </p>
+              </div>
+              <div className="flex shrink-0 gap-1">
+                {item.rejected && (
+                  <Button size="sm" variant="outline" onClick={() => handleReopen(item)}>
+                    <PencilLine className="mr-2 h-4 w-4" /> Reopen
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  aria-label={`Discard ${item.payload.name}'s application`}
+                  onClick={() => setDiscarding(item)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <Button size="sm" variant="outline" onClick={() => void retry()} disabled={syncing}>
+          <RefreshCw className={syncing ? "mr-2 h-4 w-4 animate-spin" : "mr-2 h-4 w-4"} />
+          {syncing ? "Uploading..." : "Retry now"}
+        </Button>
+      </AlertDescription>
+
+      <AlertDialog open={!!discarding} onOpenChange={(open) => !open && setDiscarding(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard this application?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {discarding?.payload.name}'s application has not been uploaded yet. Discarding it deletes it from this
+              device for good.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDiscard}>Discard</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Alert>
+  );
+}
@@ -0,0 +1,107 @@
+import { useFormContext } from "react-hook-form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import type { ApplicationFormValues } from "@/lib/application-schema";
+
+export function PersonalStep() {
+  const form = useFormContext<ApplicationFormValues>();
+
+  return (
+    <div className="space-y-6">
+      {/* Name */}
+      <FormField
+        control={form.control}
+        name="name"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Full Name *</FormLabel>
+            <FormControl>
+              <Input placeholder="John Doe" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {/* DOB */}
+        <FormField
+          control={form.control}
+          name="dateOfBirth"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Date of Birth *</FormLabel>
+              <FormControl>
+                <Input type="date" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Gender */}
+        <FormField
+          control={form.control}
+          name="gender"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Gender *</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select gender" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="male">Male</SelectItem>
+                  <SelectItem value="female">Female</SelectItem>
+                  <SelectItem value="other">Other</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {/* PAN */}
+        <FormField
+          control={form.control}
+          name="panNumber"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>PAN *</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="ABCDE1234F"
+                  maxLength={10}
+                  className="uppercase"
+                  {...field}
+                  onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Aadhaar */}
+        <FormField
+          control={form.control}
+          name="aadhaarNumber"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Aadhaar Number *</FormLabel>
+              <FormControl>
+                <Input placeholder="1234 5678 9012" inputMode="numeric" maxLength={14} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { useFormContext } from "react-hook-form";
+import { BadgeCheck, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { FormField, FormItem, FormMessage } from "@/components/ui/form";
+import type { ApplicationFormValues } from "@/lib/application-schema";
+import { ApiError } from "@/lib/api";
+import { OTP_LENGTH, otpProvider, type OtpChallenge } from "@/lib/otp";
+import { normalizeMobileNumber } from "@/lib/validation";
+
+const secondsUntil = (iso: string, now: number) => Math.max(0, Math.ceil((new Date(iso).getTime() - now) / 1000));
+
+const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+
+/** Send-and-verify OTP flow for the applicant's phone number. */
+export function PhoneVerification() {
+  const form = useFormContext<ApplicationFormValues>();
+  const [phoneNumber, token, verifiedPhoneNumber] = form.watch([
+    "phoneNumber",
+    "phoneVerificationToken",
+    "verifiedPhoneNumber",
+  ]);
+  const verified = !!token && normalizeMobileNumber(verifiedPhoneNumber ?? "") === normalizeMobileNumber(phoneNumber);
+
+  const [challenge, setChallenge] = useState<OtpChallenge | null>(null);
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  // Tick while a code is outstanding, for the expiry and resend countdowns
+  useEffect(() => {
+    if (!challenge) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [challenge]);
+
+  // A code sent to a different number is no longer relevant
+  const [challengedNumber, setChallengedNumber] = useState("");
+  useEffect(() => {
+    if (challenge && phoneNumber !== challengedNumber) {
+      setChallenge(null);
+      setCode("");
+      setError(null);
+    }
+  }, [phoneNumber, challenge, challengedNumber]);
+
+  const expiresIn = challenge ? secondsUntil(challenge.expiresAt, now) : 0;
+  const resendIn = challenge ? secondsUntil(challenge.resendAvailableAt, now) : 0;
+  const locked = challenge?.attemptsLeft === 0;
+
+  const sendCode = async () => {
+    const valid = await form.trigger("phoneNumber");
+    if (!valid) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const sent = await otpProvider.send(normalizeMobileNumber(phoneNumber));
+      setChallenge(sent);
+      setChallengedNumber(phoneNumber);
+      setCode("");
+      setNow(Date.now());
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "Unable to send verification code");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const verifyCode = async (value: string) => {
+    if (!challenge || value.length !== OTP_LENGTH) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await otpProvider.verify(challenge.challengeId, value);
+      if (result.verified) {
+        form.setValue("phoneVerificationToken", result.token ?? "", { shouldValidate: true });
+        form.setValue("verifiedPhoneNumber", phoneNumber);
+        setChallenge(null);
+        return;
+      }
+      setChallenge({ ...challenge, attemptsLeft: result.attemptsLeft });
+      setError(result.message ?? "Incorrect code");
+      setCode("");
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "Unable to verify code");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (verified) {
+    return (
+      <p className="flex items-center gap-2 text-sm font-medium text-green-700">
+        <BadgeCheck className="h-4 w-4" /> Phone number verified
+      </p>
+    );
+  }
+
+  return (
+    <FormField
+      control={form.control}
+      name="phoneVerificationToken"
+      render={() => (
+        <FormItem className="rounded-lg border p-4 space-y-3">
+          {!challenge ? (
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">We'll text a {OTP_LENGTH}-digit code to confirm this number.</p>
+              <Button type="button" size="sm" variant="outline" onClick={sendCode} disabled={busy}>
+                {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Send OTP
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                Enter the code sent to {challengedNumber}.{" "}
+                {expiresIn > 0 ? `It expires in ${formatCountdown(expiresIn)}.` : "The code has expired."}
+              </p>
+
+              <InputOTP
+                maxLength={OTP_LENGTH}
+                value={code}
+                onChange={setCode}
+                onComplete={verifyCode}
+                disabled={busy || locked || expiresIn === 0}
+              >
+                <InputOTPGroup>
+                  {Array.from({ length: OTP_LENGTH }, (_, i) => (
+                    <InputOTPSlot key={i} index={i} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Button
+                  type="button"
+                  size="sm"
+                  onClick={() => verifyCode(code)}
+                  disabled={busy || locked || expiresIn === 0 || code.length !== OTP_LENGTH}
+                >
+                  {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Verify
+                </Button>
+                <Button type="button" size="sm" variant="ghost" onClick={sendCode} disabled={busy || resendIn > 0}>
+                  {resendIn > 0 ? `Resend in ${resendIn}s` : "Resend code"}
+                </Button>
+                {!locked && (
+                  <span className="text-muted-foreground">
+                    {challenge.attemptsLeft} attempt{challenge.attemptsLeft === 1 ? "" : "s"} left
+                  </span>
+                )}
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
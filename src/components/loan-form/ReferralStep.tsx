@@ -0,0 +1,101 @@
+import { useFieldArray, useFormContext } from "react-hook-form";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import type { ApplicationFormValues } from "@/lib/application-schema";
+import { MAX_REFERRALS, REFERRAL_RELATIONSHIPS } from "@/lib/referrals";
+
+export function ReferralStep() {
+  const form = useFormContext<ApplicationFormValues>();
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "referrals" });
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Referral information is optional. Skip this step if nobody referred you, or add up to {MAX_REFERRALS}{" "}
+        referrers.
+      </p>
+
+      {fields.map((item, index) => (
+        <div key={item.id} className="rounded-lg border p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold">Referrer {index + 1}</h3>
+            <Button type="button" variant="ghost" size="sm" onClick={() => remove(index)}>
+              <Trash2 className="mr-2 h-4 w-4" /> Remove
+            </Button>
+          </div>
+
+          <div className="grid md:grid-cols-3 gap-4">
+            {/* Name */}
+            <FormField
+              control={form.control}
+              name={`referrals.${index}.name`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Enter referrer name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Phone */}
+            <FormField
+              control={form.control}
+              name={`referrals.${index}.phone`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Phone *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="+91 1234567890" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Relationship */}
+            <FormField
+              control={form.control}
+              name={`referrals.${index}.relationship`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Relationship *</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select relationship" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {REFERRAL_RELATIONSHIPS.map((relationship) => (
+                        <SelectItem key={relationship.value} value={relationship.value}>
+                          {relationship.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        </div>
+      ))}
+
+      {fields.length < MAX_REFERRALS && (
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => append({ name: "", phone: "", relationship: "" })}
+        >
+          <Plus className="mr-2 h-4 w-4" /> Add Referrer
+        </Button>
+      )}
+    </div>
+  );
+}
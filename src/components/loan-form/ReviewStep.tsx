@@ -0,0 +1,100 @@
+import { useFormContext } from "react-hook-form";
+import { Pencil } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toLoanDetails, type ApplicationFormValues, type StepId } from "@/lib/application-schema";
+import { getLoanCategoryLabel } from "@/lib/loan-categories";
+import { getLoanDetailRows } from "@/lib/loan-details";
+import { DOCUMENT_LABELS, getDocumentRequirements } from "@/lib/documents";
+import { maskAadhaar } from "@/lib/validation";
+import { formatReferral } from "@/lib/referrals";
+
+interface ReviewStepProps {
+  onEdit: (step: StepId) => void;
+}
+
+type Row = [label: string, value: string | undefined];
+
+export function ReviewStep({ onEdit }: ReviewStepProps) {
+  const values = useFormContext<ApplicationFormValues>().getValues();
+
+  const sections: { step: StepId; title: string; rows: Row[] }[] = [
+    {
+      step: "personal",
+      title: "Personal Details",
+      rows: [
+        ["Full Name", values.name],
+        ["Date of Birth", values.dateOfBirth && new Date(values.dateOfBirth).toLocaleDateString()],
+        ["Gender", values.gender],
+        ["PAN", values.panNumber],
+        ["Aadhaar Number", maskAadhaar(values.aadhaarNumber)],
+      ],
+    },
+    {
+      step: "contact",
+      title: "Contact & Address",
+      rows: [
+        ["Phone Number", values.phoneNumber],
+        ["Primary Contact", values.primaryContactNumber],
+        ["Address", values.address],
+        ["PIN Code", values.pinCode],
+        ["City / State", [values.city, values.state].filter(Boolean).join(", ")],
+      ],
+    },
+    {
+      step: "loan",
+      title: "Loan Details",
+      rows: [
+        [
+          "Loan Category",
+          values.loanCategory === "other" ? values.loanCategoryOther : getLoanCategoryLabel(values.loanCategory),
+        ],
+        ...getLoanDetailRows({ ...values, ...toLoanDetails(values) }),
+      ],
+    },
+    {
+      step: "referrals",
+      title: "Referrals",
+      rows: values.referrals?.length
+        ? values.referrals.map((referral, i): Row => [`Referrer ${i + 1}`, formatReferral(referral)])
+        : [["Referrers", "None"]],
+    },
+    {
+      step: "documents",
+      title: "Documents",
+      rows: getDocumentRequirements(values.loanCategory, values.employmentType).map((doc) => [
+        DOCUMENT_LABELS[doc.kind],
+        values.documents
+          ?.filter((d) => d.kind === doc.kind)
+          .map((d) => d.fileName)
+          .join("\n"),
+      ]),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Please check your details before submitting. Use Edit to change any section.
+      </p>
+
+      {sections.map((section) => (
+        <div key={section.step} className="rounded-lg border p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold">{section.title}</h3>
+            <Button type="button" variant="ghost" size="sm" onClick={() => onEdit(section.step)}>
+              <Pencil className="mr-2 h-4 w-4" /> Edit
+            </Button>
+          </div>
+          <dl className="grid sm:grid-cols-2 gap-3">
+            {section.rows.map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-sm text-muted-foreground">{label}</dt>
+                <dd className="font-medium whitespace-pre-wrap">{value || "-"}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { Check } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import type { FormStep } from "@/lib/application-schema";
+
+interface StepIndicatorProps {
+  steps: FormStep[];
+  current: number;
+}
+
+export function StepIndicator({ steps, current }: StepIndicatorProps) {
+  const percentage = Math.round((current / (steps.length - 1)) * 100);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between text-sm">
+        <span className="font-medium">
+          Step {current + 1} of {steps.length}: {steps[current].title}
+        </span>
+        <span className="text-muted-foreground">{percentage}%</span>
+      </div>
+      <Progress value={percentage} className="h-2" />
+      <ol className="hidden sm:flex justify-between">
+        {steps.map((step, index) => (
+          <li
+            key={step.id}
+            className={cn(
+              "flex items-center gap-1 text-xs",
+              index <= current ? "text-primary font-medium" : "text-muted-foreground"
+            )}
+          >
+            {index < current && <Check className="h-3 w-3" />}
+            {step.title}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
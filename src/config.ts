@@ -1,2 +1,112 @@
 // src/config.ts
-export const BACKEND_URL = "https://loan-inquiry-hub.vercel.app/admin";
+export type EnvironmentName = "local" | "staging" | "production";
+
+export interface BackendProfile {
+  name: EnvironmentName;
+  label: string;
+  /** Origin of the backend, without a trailing slash. */
+  baseUrl: string;
+  /** Path prefix for the public applicant endpoints. */
+  publicApiPath: string;
+  /** Path prefix for the authenticated admin endpoints. */
+  adminApiPath: string;
+}
+
+const PROFILES: Record<EnvironmentName, BackendProfile> = {
+  local: {
+    name: "local",
+    label: "Local",
+    baseUrl: "http://localhost:5000",
+    publicApiPath: "/admin/api",
+    adminApiPath: "/admin",
+  },
+  staging: {
+    name: "staging",
+    label: "Staging",
+    baseUrl: "https://loan-inquiry-hub-staging.vercel.app",
+    publicApiPath: "/admin/api",
+    adminApiPath: "/admin",
+  },
+  production: {
+    name: "production",
+    label: "Production",
+    baseUrl: "https://loan-inquiry-hub.vercel.app",
+    publicApiPath: "/admin/api",
+    adminApiPath: "/admin",
+  },
+};
+
+// QA can switch profiles at runtime with ?backend=<profile> (or ?backend=reset).
+// Production builds ignore it, so a crafted link can't redirect applicant data.
+const OVERRIDE_KEY = "backend_profile_override";
+const OVERRIDE_PARAM = "backend";
+
+const isProfileName = (value: unknown): value is EnvironmentName =>
+  typeof value === "string" && value in PROFILES;
+
+const trimSlash = (value: string) => value.replace(/\/+$/, "");
+
+function readRuntimeOverride(buildProfile: EnvironmentName): EnvironmentName | null {
+  if (typeof window === "undefined") return null;
+
+  if (!import.meta.env.DEV && buildProfile === "production") {
+    // Drop anything saved before the override was restricted
+    localStorage.removeItem(OVERRIDE_KEY);
+    return null;
+  }
+
+  const param = new URLSearchParams(window.location.search).get(OVERRIDE_PARAM);
+  if (param === "reset") {
+    localStorage.removeItem(OVERRIDE_KEY);
+  } else if (isProfileName(param)) {
+    localStorage.setItem(OVERRIDE_KEY, param);
+  }
+
+  const stored = localStorage.getItem(OVERRIDE_KEY);
+  return isProfileName(stored) ? stored : null;
+}
+
+function resolveProfile(): BackendProfile {
+  const env = import.meta.env;
+  const buildProfile = isProfileName(env.VITE_BACKEND_PROFILE) ? env.VITE_BACKEND_PROFILE : "production";
+
+  const override = readRuntimeOverride(buildProfile);
+  if (override && override !== buildProfile) return PROFILES[override];
+
+  // Env variables only refine the profile the build was made for
+  const profile = PROFILES[buildProfile];
+  return {
+    ...profile,
+    baseUrl: trimSlash(env.VITE_BACKEND_URL || profile.baseUrl),
+    publicApiPath: trimSlash(env.VITE_PUBLIC_API_PATH ?? profile.publicApiPath),
+    adminApiPath: trimSlash(env.VITE_ADMIN_API_PATH ?? profile.adminApiPath),
+  };
+}
+
+export const BACKEND_PROFILE = resolveProfile();
+export const IS_PRODUCTION = BACKEND_PROFILE.name === "production";
+
+export const PUBLIC_API_URL = `${BACKEND_PROFILE.baseUrl}${BACKEND_PROFILE.publicApiPath}`;
+export const BACKEND_URL = `${BACKEND_PROFILE.baseUrl}${BACKEND_PROFILE.adminApiPath}`;
+
+// Saved application drafts hold personal data, so they expire (shared devices)
+const draftExpiryDays = Number(import.meta.env.VITE_DRAFT_EXPIRY_DAYS);
+export const DRAFT_EXPIRY_DAYS = draftExpiryDays > 0 ? draftExpiryDays : 7;
+
+// Data comes from the HTTP backend, or is kept in this browser's IndexedDB so
+// the app runs with no backend at all (offline demos, field agents)
+export type DataSourceName = "http" | "indexeddb";
+export const DATA_SOURCE: DataSourceName = import.meta.env.VITE_DATA_SOURCE === "indexeddb" ? "indexeddb" : "http";
+export const IS_OFFLINE = DATA_SOURCE === "indexeddb";
+
+// Phone OTPs go through the backend; the stub accepts a fixed code for local testing.
+// Without a backend there is nothing to send codes, so offline always uses the stub.
+export type OtpProviderName = "backend" | "stub";
+const otpProvider = import.meta.env.VITE_OTP_PROVIDER;
+export const OTP_PROVIDER: OtpProviderName = IS_OFFLINE
+  ? "stub"
+  : otpProvider === "stub" || otpProvider === "backend"
+    ? otpProvider
+    : BACKEND_PROFILE.name === "local"
+      ? "stub"
+      : "backend";
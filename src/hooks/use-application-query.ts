@@ -0,0 +1,76 @@
+import * as React from "react";
+import { useSearchParams } from "react-router-dom";
+import type { ApplicationQuery, SortOrder } from "@/lib/api";
+import { APPLICATION_STATUSES, type ApplicationStatus } from "@/lib/status";
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+export const DEFAULT_APPLICATION_QUERY: ApplicationQuery = {
+  page: 1,
+  pageSize: DEFAULT_PAGE_SIZE,
+  sort: "submittedAt",
+  order: "desc",
+  q: "",
+  category: "",
+  status: "",
+  from: "",
+  to: "",
+};
+
+function parseQuery(params: URLSearchParams): ApplicationQuery {
+  const number = (key: string, fallback: number) => {
+    const value = Number(params.get(key));
+    return Number.isInteger(value) && value > 0 ? value : fallback;
+  };
+  const status = params.get("status");
+  const order = params.get("order");
+
+  return {
+    page: number("page", DEFAULT_APPLICATION_QUERY.page),
+    pageSize: number("pageSize", DEFAULT_APPLICATION_QUERY.pageSize),
+    sort: params.get("sort") || DEFAULT_APPLICATION_QUERY.sort,
+    order: order === "asc" || order === "desc" ? (order as SortOrder) : DEFAULT_APPLICATION_QUERY.order,
+    q: params.get("q") ?? "",
+    category: params.get("category") ?? "",
+    status: APPLICATION_STATUSES.includes(status as ApplicationStatus) ? (status as ApplicationStatus) : "",
+    from: params.get("from") ?? "",
+    to: params.get("to") ?? "",
+  };
+}
+
+function toParams(query: ApplicationQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  (Object.keys(query) as (keyof ApplicationQuery)[]).forEach((key) => {
+    if (query[key] !== DEFAULT_APPLICATION_QUERY[key]) params.set(key, String(query[key]));
+  });
+  return params;
+}
+
+/**
+ * Applications list filters, kept in the URL so a filtered view can be
+ * bookmarked or shared. Changing any filter other than the page resets to page 1.
+ */
+export function useApplicationQuery() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = React.useMemo(() => parseQuery(searchParams), [searchParams]);
+
+  const setQuery = React.useCallback(
+    (patch: Partial<ApplicationQuery>) => {
+      setSearchParams(
+        (prev) => {
+          const next = { ...parseQuery(prev), ...patch };
+          if (!("page" in patch)) next.page = 1;
+          return toParams(next);
+        },
+        { replace: true }
+      );
+    },
+    [setSearchParams]
+  );
+
+  const resetQuery = React.useCallback(() => {
+    setSearchParams(new URLSearchParams(), { replace: true });
+  }, [setSearchParams]);
+
+  return { query, setQuery, resetQuery };
+}
@@ -0,0 +1,25 @@
+import * as React from "react";
+import type { LoginResponse } from "@/lib/api";
+
+export type LogoutReason = "manual" | "expired" | "unauthorized" | "remote";
+
+export interface AuthContextValue {
+  isAuthenticated: boolean;
+  username: string | null;
+  /** Token expiry in epoch milliseconds, null when the token has no `exp`. */
+  expiresAt: number | null;
+  login: (data: LoginResponse) => void;
+  logout: (reason?: LogoutReason) => void;
+  /** Exchanges the refresh token for a new access token. Resolves false on failure. */
+  refresh: () => Promise<boolean>;
+}
+
+export const AuthContext = React.createContext<AuthContextValue | null>(null);
+
+export function useAuth(): AuthContextValue {
+  const context = React.useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
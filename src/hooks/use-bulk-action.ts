@@ -0,0 +1,81 @@
+import * as React from "react";
+import type { Application } from "@/lib/api";
+
+export interface BulkFailure {
+  id: string;
+  label: string;
+  message: string;
+}
+
+export interface BulkProgress {
+  title: string;
+  done: number;
+  total: number;
+  failures: BulkFailure[];
+  finished: boolean;
+  /** Stopped by the user before every item was processed. */
+  cancelled: boolean;
+}
+
+/**
+ * Runs an action over many applications one at a time, tracking progress and
+ * collecting per-item failures instead of stopping at the first error. A run
+ * can be cancelled; the item in flight finishes and the rest are skipped.
+ */
+export function useBulkAction() {
+  const [progress, setProgress] = React.useState<BulkProgress | null>(null);
+  const controllerRef = React.useRef<AbortController | null>(null);
+
+  const run = React.useCallback(
+    async (title: string, items: Application[], worker: (app: Application) => Promise<void>) => {
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      const failures: BulkFailure[] = [];
+      let done = 0;
+      setProgress({ title, done, total: items.length, failures, finished: false, cancelled: false });
+
+      for (const app of items) {
+        if (controller.signal.aborted) break;
+        try {
+          await worker(app);
+        } catch (err) {
+          failures.push({
+            id: app._id,
+            label: app.name || app._id,
+            message: err instanceof Error && err.message ? err.message : "Unknown error",
+          });
+        }
+        done++;
+        setProgress({
+          title,
+          done,
+          total: items.length,
+          failures: [...failures],
+          finished: false,
+          cancelled: controller.signal.aborted,
+        });
+      }
+
+      const result: BulkProgress = {
+        title,
+        done,
+        total: items.length,
+        failures,
+        finished: true,
+        cancelled: controller.signal.aborted,
+      };
+      controllerRef.current = null;
+      setProgress(result);
+      return result;
+    },
+    []
+  );
+
+  const cancel = React.useCallback(() => {
+    controllerRef.current?.abort();
+    setProgress((current) => current && { ...current, cancelled: true });
+  }, []);
+  const dismiss = React.useCallback(() => setProgress(null), []);
+
+  return { progress, run, cancel, dismiss };
+}
@@ -0,0 +1,83 @@
+import * as React from "react";
+import {
+  COLUMNS,
+  DEFAULT_COLUMN_ORDER,
+  DEFAULT_HIDDEN_COLUMNS,
+  type ColumnId,
+} from "@/lib/application-columns";
+
+export interface ColumnLayout {
+  order: ColumnId[];
+  hidden: ColumnId[];
+}
+
+const DEFAULT_LAYOUT: ColumnLayout = {
+  order: DEFAULT_COLUMN_ORDER,
+  hidden: DEFAULT_HIDDEN_COLUMNS,
+};
+
+const storageKey = (username: string | null) => `table_layout:${username ?? "default"}`;
+
+function loadLayout(username: string | null): ColumnLayout {
+  try {
+    const data = localStorage.getItem(storageKey(username));
+    if (!data) return DEFAULT_LAYOUT;
+
+    const saved = JSON.parse(data) as ColumnLayout;
+    const known = (ids: ColumnId[]) => ids.filter((id) => id in COLUMNS);
+
+    // Columns added after the layout was saved go at the end, hidden
+    const order = known(saved.order);
+    const added = DEFAULT_COLUMN_ORDER.filter((id) => !order.includes(id));
+    return {
+      order: [...order, ...added],
+      hidden: [...known(saved.hidden), ...added],
+    };
+  } catch {
+    return DEFAULT_LAYOUT;
+  }
+}
+
+/** Column order and visibility for the applications table, saved per admin. */
+export function useColumnLayout(username: string | null) {
+  const [layout, setLayout] = React.useState<ColumnLayout>(() => loadLayout(username));
+
+  React.useEffect(() => {
+    setLayout(loadLayout(username));
+  }, [username]);
+
+  const update = React.useCallback(
+    (next: ColumnLayout) => {
+      setLayout(next);
+      localStorage.setItem(storageKey(username), JSON.stringify(next));
+    },
+    [username]
+  );
+
+  const visibleColumns = React.useMemo(
+    () => layout.order.filter((id) => !layout.hidden.includes(id)),
+    [layout]
+  );
+
+  const toggleColumn = (id: ColumnId) => {
+    const hidden = layout.hidden.includes(id)
+      ? layout.hidden.filter((h) => h !== id)
+      : [...layout.hidden, id];
+    // Always keep at least one column on screen
+    if (hidden.length === layout.order.length) return;
+    update({ ...layout, hidden });
+  };
+
+  const moveColumn = (id: ColumnId, toIndex: number) => {
+    const order = layout.order.filter((c) => c !== id);
+    order.splice(toIndex, 0, id);
+    update({ ...layout, order });
+  };
+
+  const resetLayout = () => {
+    localStorage.removeItem(storageKey(username));
+    setLayout(DEFAULT_LAYOUT);
+  };
+
+  return { layout, visibleColumns, toggleColumn, moveColumn, resetLayout };
+}
@@ -0,0 +1,53 @@
+import * as React from "react";
+import type { FieldValues, UseFormReturn } from "react-hook-form";
+import { storage } from "@/lib/storage";
+
+const AUTOSAVE_DELAY_MS = 500;
+
+const hasContent = (values: FieldValues) =>
+  Object.values(values).some((value) =>
+    Array.isArray(value) ? value.length > 0 : value !== "" && value !== undefined && value !== null
+  );
+
+/**
+ * Saves the form to localStorage shortly after every change so an applicant
+ * can resume after closing the browser. Returns when the draft was last saved.
+ */
+export function useDraftAutosave<T extends FieldValues>(form: UseFormReturn<T>, step: number, enabled: boolean) {
+  const [savedAt, setSavedAt] = React.useState<string | null>(null);
+  const stepRef = React.useRef(step);
+  stepRef.current = step;
+
+  const save = React.useCallback(() => {
+    const values = form.getValues();
+    if (!hasContent(values)) return;
+    setSavedAt(storage.saveDraft(values, stepRef.current).savedAt);
+  }, [form]);
+
+  React.useEffect(() => {
+    if (!enabled) return;
+
+    let timeout: ReturnType<typeof setTimeout>;
+    const subscription = form.watch(() => {
+      clearTimeout(timeout);
+      timeout = setTimeout(save, AUTOSAVE_DELAY_MS);
+    });
+
+    return () => {
+      clearTimeout(timeout);
+      subscription.unsubscribe();
+    };
+  }, [form, enabled, save]);
+
+  // Moving between steps is saved straight away
+  React.useEffect(() => {
+    if (enabled) save();
+  }, [step, enabled, save]);
+
+  const clear = React.useCallback(() => {
+    storage.clearDraft();
+    setSavedAt(null);
+  }, []);
+
+  return { savedAt, clear };
+}
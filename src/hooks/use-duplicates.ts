@@ -0,0 +1,41 @@
+import * as React from "react";
+import { api, type Application } from "@/lib/api";
+import type { DuplicateMatch } from "@/lib/duplicates";
+
+const NO_MATCHES: DuplicateMatch[] = [];
+
+/**
+ * Asks the backend which applications look like the given ones (the rows on
+ * screen and the one that is open) and answers from that result.
+ * Call `reload` after changes that add, remove or edit applicants.
+ */
+export function useDuplicates(ids: string[]) {
+  const [matches, setMatches] = React.useState<Record<string, DuplicateMatch[]>>({});
+  const [version, setVersion] = React.useState(0);
+  // A stable key, so a re-render with the same rows doesn't refetch
+  const key = [...new Set(ids)].sort().join(",");
+
+  React.useEffect(() => {
+    if (!key) {
+      setMatches({});
+      return;
+    }
+
+    let cancelled = false;
+    api
+      .getApplicationDuplicates(key.split(","))
+      .then((data) => !cancelled && setMatches(data))
+      .catch(() => {
+        // Duplicate flags are a hint; the dashboard works without them
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [key, version]);
+
+  const findDuplicates = React.useCallback((app: Application) => matches[app._id] ?? NO_MATCHES, [matches]);
+
+  const reload = React.useCallback(() => setVersion((v) => v + 1), []);
+
+  return { findDuplicates, reload };
+}
@@ -0,0 +1,41 @@
+import * as React from "react";
+import { api } from "@/lib/api";
+import { DEFAULT_LETTER_TEMPLATES, type LetterKind, type LetterTemplate } from "@/lib/letters";
+
+/**
+ * The organisation's letter templates. Kinds the backend has no saved
+ * wording for, or every kind if the templates can't be loaded, use the
+ * built-in defaults.
+ */
+export function useLetterTemplates() {
+  const [templates, setTemplates] = React.useState<Record<LetterKind, LetterTemplate>>(DEFAULT_LETTER_TEMPLATES);
+  const [loading, setLoading] = React.useState(true);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    api
+      .getLetterTemplates()
+      .then((saved) => {
+        if (cancelled) return;
+        setTemplates((current) => ({
+          ...current,
+          ...Object.fromEntries(saved.map((template) => [template.kind, template])),
+        }));
+      })
+      .catch(() => {
+        // Letters can still be generated from the defaults
+      })
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const save = React.useCallback(async (template: LetterTemplate) => {
+    const saved = await api.updateLetterTemplate(template.kind, { subject: template.subject, body: template.body });
+    setTemplates((current) => ({ ...current, [saved.kind]: saved }));
+    return saved;
+  }, []);
+
+  return { templates, loading, save };
+}
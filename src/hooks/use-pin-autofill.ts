@@ -0,0 +1,36 @@
+import * as React from "react";
+import type { FieldValues, Path, PathValue, UseFormReturn } from "react-hook-form";
+import { lookupPinCode } from "@/lib/pin-directory";
+
+interface AddressFields {
+  pinCode?: string;
+  city?: string;
+  state?: string;
+}
+
+/**
+ * Fills city and state from the bundled PIN directory when a valid PIN is typed.
+ * Values the user typed themselves are never overwritten.
+ */
+export function usePinCodeAutofill<T extends FieldValues & AddressFields>(form: UseFormReturn<T>) {
+  const pinCode = form.watch("pinCode" as Path<T>) as string | undefined;
+  // What we last filled in, so a later PIN can replace it but not the user's own text
+  const filled = React.useRef<{ city?: string; state?: string }>({});
+
+  React.useEffect(() => {
+    const location = lookupPinCode(pinCode?.trim() ?? "");
+    if (!location) return;
+
+    const fill = (field: "city" | "state", value: string | undefined) => {
+      if (!value) return;
+      const name = field as Path<T>;
+      const current = form.getValues(name) as string | undefined;
+      if (current && current !== filled.current[field]) return;
+      form.setValue(name, value as PathValue<T, Path<T>>, { shouldValidate: !!current, shouldDirty: true });
+      filled.current[field] = value;
+    };
+
+    fill("city", location.city);
+    fill("state", location.state);
+  }, [pinCode, form]);
+}
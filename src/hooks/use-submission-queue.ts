@@ -0,0 +1,47 @@
+import * as React from "react";
+import { FORM_STEPS } from "@/lib/application-schema";
+import { storage } from "@/lib/storage";
+import { submissionQueue, type QueuedSubmission } from "@/lib/submission-queue";
+
+/**
+ * Applications waiting on this device to be uploaded, kept current as the
+ * background sync sends or queues them.
+ */
+export function useSubmissionQueue() {
+  const [items, setItems] = React.useState<QueuedSubmission[]>([]);
+  const [syncing, setSyncing] = React.useState(() => submissionQueue.isSyncing());
+
+  React.useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      setSyncing(submissionQueue.isSyncing());
+      submissionQueue
+        .list()
+        .then((list) => !cancelled && setItems(list))
+        .catch(() => !cancelled && setItems([]));
+    };
+
+    refresh();
+    const unsubscribe = submissionQueue.subscribe(refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  const retry = React.useCallback(() => submissionQueue.sync({ force: true }), []);
+  const discard = React.useCallback((id: string) => submissionQueue.discard(id), []);
+
+  /**
+   * Moves an application back into the form's draft, replacing any draft on
+   * this device. Phone verification is cleared, as its token will have expired.
+   */
+  const reopen = React.useCallback(async (id: string) => {
+    const item = await submissionQueue.take(id);
+    if (!item) return;
+    const step = FORM_STEPS.findIndex((s) => s.fields.includes("phoneVerificationToken"));
+    storage.saveDraft({ ...item.values, phoneVerificationToken: "", verifiedPhoneNumber: "" }, Math.max(step, 0));
+  }, []);
+
+  return { items, syncing, retry, discard, reopen };
+}
@@ -0,0 +1,34 @@
+// src/lib/activity.ts
+export type ActivityType =
+  | "viewed"
+  | "pdf_downloaded"
+  | "status_changed"
+  | "edited"
+  | "merged"
+  | "letter_generated"
+  | "deleted";
+
+export interface ActivityEntry {
+  _id?: string;
+  type: ActivityType;
+  actor?: string;
+  details?: string;
+  createdAt: string;
+}
+
+export interface ApplicationNote {
+  _id: string;
+  author: string;
+  text: string;
+  createdAt: string;
+}
+
+export const ACTIVITY_LABELS: Record<ActivityType, string> = {
+  viewed: "Viewed the application",
+  pdf_downloaded: "Downloaded the PDF",
+  status_changed: "Changed the status",
+  edited: "Edited the applicant details",
+  merged: "Merged a duplicate application",
+  letter_generated: "Generated a letter",
+  deleted: "Deleted the application",
+};
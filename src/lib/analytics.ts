@@ -0,0 +1,132 @@
+// src/lib/analytics.ts
+import { differenceInYears, format, startOfMonth, startOfWeek } from "date-fns";
+import type { Application } from "@/lib/api";
+import { getLoanCategoryLabel } from "@/lib/loan-categories";
+import { getReferrals } from "@/lib/referrals";
+import { STATUS_LABELS, getStatus, type ApplicationStatus } from "@/lib/status";
+
+export type Granularity = "day" | "week" | "month";
+
+export interface CountDatum {
+  key: string;
+  label: string;
+  count: number;
+}
+
+const PERIOD_START: Record<Granularity, (date: Date) => Date> = {
+  day: (date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()),
+  week: (date) => startOfWeek(date, { weekStartsOn: 1 }),
+  month: (date) => startOfMonth(date),
+};
+
+const PERIOD_LABEL: Record<Granularity, string> = {
+  day: "dd MMM",
+  week: "'Wk of' dd MMM",
+  month: "MMM yyyy",
+};
+
+/** Applications submitted per day, week or month, oldest first. */
+export function countByPeriod(applications: Application[], granularity: Granularity): CountDatum[] {
+  const buckets = new Map<number, number>();
+  applications.forEach((app) => {
+    const date = new Date(app.submittedAt);
+    if (Number.isNaN(date.getTime())) return;
+    const start = PERIOD_START[granularity](date).getTime();
+    buckets.set(start, (buckets.get(start) ?? 0) + 1);
+  });
+
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([start, count]) => ({
+      key: String(start),
+      label: format(new Date(start), PERIOD_LABEL[granularity]),
+      count,
+    }));
+}
+
+/** Counts applications by a derived key, largest group first. */
+export function countBy(
+  applications: Application[],
+  keyOf: (app: Application) => string,
+  labelOf: (key: string) => string = (key) => key
+): CountDatum[] {
+  const counts = new Map<string, number>();
+  applications.forEach((app) => {
+    const key = keyOf(app) || "unknown";
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+
+  return [...counts.entries()]
+    .sort(([, a], [, b]) => b - a)
+    .map(([key, count]) => ({ key, label: key === "unknown" ? "Not specified" : labelOf(key), count }));
+}
+
+export const countByCategory = (applications: Application[]) =>
+  countBy(applications, (app) => app.loanCategory, getLoanCategoryLabel);
+
+export const countByGender = (applications: Application[]) =>
+  countBy(
+    applications,
+    (app) => app.gender?.toLowerCase(),
+    (key) => key.charAt(0).toUpperCase() + key.slice(1)
+  );
+
+const AGE_BANDS: { label: string; min: number; max: number }[] = [
+  { label: "18-25", min: 18, max: 25 },
+  { label: "26-35", min: 26, max: 35 },
+  { label: "36-45", min: 36, max: 45 },
+  { label: "46-55", min: 46, max: 55 },
+  { label: "56-65", min: 56, max: 65 },
+  { label: "65+", min: 66, max: Infinity },
+];
+
+/** Age at submission, bucketed into bands. Applicants under 18 or without a DOB are skipped. */
+export function ageDistribution(applications: Application[]): CountDatum[] {
+  const counts = AGE_BANDS.map((band) => ({ key: band.label, label: band.label, count: 0 }));
+
+  applications.forEach((app) => {
+    const dob = new Date(app.dateOfBirth);
+    if (!app.dateOfBirth || Number.isNaN(dob.getTime())) return;
+    const age = differenceInYears(new Date(app.submittedAt), dob);
+    const index = AGE_BANDS.findIndex((band) => age >= band.min && age <= band.max);
+    if (index >= 0) counts[index].count++;
+  });
+
+  return counts;
+}
+
+const hasReferral = (app: Application) => getReferrals(app).length > 0;
+
+export function referralSplit(applications: Application[]): CountDatum[] {
+  const referred = applications.filter(hasReferral).length;
+  return [
+    { key: "referral", label: "Referral", count: referred },
+    { key: "direct", label: "Direct", count: applications.length - referred },
+  ];
+}
+
+// Stages an application passes through on its way to disbursal
+const FUNNEL: ApplicationStatus[] = ["new", "under_review", "approved", "disbursed"];
+
+/**
+ * How many applications reached each stage of the workflow, using the status
+ * history so rejected applications still count for the stages they passed.
+ */
+export function statusFunnel(applications: Application[]): (CountDatum & { rate: number })[] {
+  const reached = (app: Application, stage: ApplicationStatus) => {
+    const current = getStatus(app);
+    if (FUNNEL.indexOf(current) >= FUNNEL.indexOf(stage)) return true;
+    return (app.statusHistory ?? []).some((entry) => FUNNEL.indexOf(entry.to) >= FUNNEL.indexOf(stage));
+  };
+
+  const total = applications.length;
+  return FUNNEL.map((stage) => {
+    const count = stage === "new" ? total : applications.filter((app) => reached(app, stage)).length;
+    return {
+      key: stage,
+      label: STATUS_LABELS[stage],
+      count,
+      rate: total ? Math.round((count / total) * 100) : 0,
+    };
+  });
+}
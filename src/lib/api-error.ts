@@ -0,0 +1,21 @@
+// src/lib/api-error.ts
+/** Error raised for failed API calls, whichever data source served them. */
+export class ApiError extends Error {
+  status: number;
+  data: unknown;
+
+  constructor(message: string, status: number, data?: unknown) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.data = data;
+  }
+
+  get isNetworkError(): boolean {
+    return this.status === 0;
+  }
+
+  get isUnauthorized(): boolean {
+    return this.status === 401;
+  }
+}
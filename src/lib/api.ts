@@ -0,0 +1,616 @@
+// src/lib/api.ts
+import { BACKEND_URL, IS_OFFLINE, PUBLIC_API_URL } from "@/config";
+import { session } from "@/lib/session";
+import { ApiError } from "@/lib/api-error";
+import { createIndexedDbDataSource } from "@/lib/storage";
+import type { ApplicationStatus, StatusHistoryEntry } from "@/lib/status";
+import type { ActivityEntry, ActivityType, ApplicationNote } from "@/lib/activity";
+import type { EmiScenario } from "@/lib/emi";
+import type { DuplicateMatch } from "@/lib/duplicates";
+import type { ApplicationDocument, DocumentKind } from "@/lib/documents";
+import type { OtpChallenge, OtpVerification } from "@/lib/otp";
+import type { Referral } from "@/lib/referrals";
+import type { ApplicationLetter, LetterKind, LetterTemplate } from "@/lib/letters";
+
+// ---------- Types ----------
+
+/** What the applicant is asking for. Older applications were submitted without these. */
+export interface LoanDetails {
+  loanAmount: number;
+  tenureMonths: number;
+  monthlyIncome: number;
+  employmentType: string;
+  // housing
+  propertyValue?: number;
+  // vehicle-old / vehicle-new
+  vehicleMake?: string;
+  vehicleModel?: string;
+  vehicleYear?: number;
+  // business
+  businessTurnover?: number;
+  businessVintageYears?: number;
+  /** Repayment scenario from the EMI calculator at the time of applying. */
+  emiScenario?: EmiScenario;
+}
+
+export interface Application extends Partial<LoanDetails> {
+  _id: string;
+  name: string;
+  phoneNumber: string;
+  primaryContactNumber: string;
+  address: string;
+  pinCode?: string;
+  city?: string;
+  state?: string;
+  dateOfBirth: string;
+  gender: string;
+  panNumber?: string;
+  aadhaarNumber?: string;
+  loanCategory: string;
+  loanCategoryOther?: string;
+  referrals?: Referral[];
+  // Legacy referral fields of older applications; read them through getReferrals()
+  referralName?: string;
+  referralPhone?: string;
+  referralName1?: string;
+  referralPhone1?: string;
+  referralName2?: string;
+  referralPhone2?: string;
+  status?: ApplicationStatus;
+  statusHistory?: StatusHistoryEntry[];
+  assignedTo?: string;
+  documents?: ApplicationDocument[];
+  /** Set by the backend when the applicant confirmed their phone number by OTP. */
+  phoneVerified?: boolean;
+  /** The applicant was warned about an earlier application and submitted anyway. */
+  duplicateAcknowledged?: boolean;
+  /** Set on archived duplicates: the application they were merged into. */
+  mergedInto?: string;
+  submittedAt: string;
+}
+
+export type ApplicationInput = Omit<
+  Application,
+  | "_id"
+  | "submittedAt"
+  | "status"
+  | "statusHistory"
+  | "assignedTo"
+  | "phoneVerified"
+  | "mergedInto"
+  | "referralName"
+  | "referralPhone"
+  | "referralName1"
+  | "referralPhone1"
+  | "referralName2"
+  | "referralPhone2"
+> & {
+  phoneVerificationToken?: string;
+};
+
+/**
+ * Sent only once the phone number is verified, so the backend can refuse to
+ * answer for numbers the caller hasn't proved they own.
+ */
+export type DuplicateCheckRequest = Pick<
+  ApplicationInput,
+  "name" | "phoneNumber" | "dateOfBirth" | "phoneVerificationToken"
+>;
+
+/** Deliberately just a yes or no; details of the earlier application are never public. */
+export interface DuplicateCheckResponse {
+  duplicate: boolean;
+}
+
+export interface ActivityRequest {
+  type: ActivityType;
+  details?: string;
+}
+
+export interface StatusUpdateRequest {
+  status: ApplicationStatus;
+  reason?: string;
+}
+
+export interface SaveLetterRequest {
+  kind: LetterKind;
+  subject: string;
+  fileName: string;
+}
+
+export type SortOrder = "asc" | "desc";
+
+/** List filters understood by the applications endpoint. Empty values are omitted. */
+export interface ApplicationQuery {
+  page: number;
+  pageSize: number;
+  sort: string;
+  order: SortOrder;
+  q: string;
+  category: string;
+  status: ApplicationStatus | "";
+  /** Inclusive date bounds, formatted yyyy-MM-dd. */
+  from: string;
+  to: string;
+}
+
+export interface PaginatedResponse<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface ApplicationListResponse extends PaginatedResponse<Application> {
+  /** Per-status totals for the current filters, ignoring the status filter itself. */
+  statusCounts?: Partial<Record<ApplicationStatus, number>>;
+}
+
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+export interface LoginResponse {
+  token: string;
+  username: string;
+  refreshToken?: string;
+}
+
+export interface RefreshResponse {
+  token: string;
+  refreshToken?: string;
+}
+
+export interface StorageStatus {
+  status: "ok" | "warning" | "critical";
+  percentage: number;
+  usedDocuments: number;
+  maxDocuments: number;
+}
+
+export interface AdminUpdateRequest {
+  username: string;
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface MessageResponse {
+  message?: string;
+}
+
+export interface UploadProgressOptions {
+  onProgress?: (percent: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface SubmitOptions {
+  /**
+   * Identifies one submission across retries; the backend creates the
+   * application only once per key, so resending after a lost response is safe.
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * Everything the app reads and writes. Implemented over HTTP against the
+ * backend, and in the browser's IndexedDB for offline use (see storage.ts).
+ */
+export interface DataSource {
+  // Public applicant form
+  submitApplication(values: ApplicationInput, options?: SubmitOptions): Promise<MessageResponse>;
+  /** Whether this applicant already has an application, without revealing its details. */
+  checkDuplicate(values: DuplicateCheckRequest): Promise<DuplicateCheckResponse>;
+  uploadDocument(file: File, kind: DocumentKind, options?: UploadProgressOptions): Promise<ApplicationDocument>;
+  sendOtp(phoneNumber: string): Promise<OtpChallenge>;
+  verifyOtp(challengeId: string, code: string): Promise<OtpVerification>;
+
+  // Admin auth
+  login(credentials: LoginRequest): Promise<LoginResponse>;
+  refreshSession(refreshToken: string | null): Promise<RefreshResponse>;
+  updateAdmin(values: AdminUpdateRequest): Promise<MessageResponse>;
+
+  // Applications
+  getApplications(query?: Partial<ApplicationQuery>): Promise<ApplicationListResponse>;
+  /** Every application matching the filters, across all pages. */
+  getAllApplications(query?: Partial<ApplicationQuery>): Promise<Application[]>;
+  deleteApplication(id: string): Promise<MessageResponse>;
+  updateApplication(id: string, values: Partial<ApplicationInput>): Promise<Application>;
+  /** Keeps `id` and archives `duplicateId` into it; the archived record keeps its history. */
+  mergeApplications(id: string, duplicateId: string): Promise<Application>;
+  /** Probable duplicates of each of the given applications, best match first, keyed by id. */
+  getApplicationDuplicates(ids: string[]): Promise<Record<string, DuplicateMatch[]>>;
+  updateApplicationStatus(id: string, values: StatusUpdateRequest): Promise<Application>;
+  assignApplication(id: string, assignee: string): Promise<Application>;
+  getApplicationNotes(id: string): Promise<ApplicationNote[]>;
+  addApplicationNote(id: string, text: string): Promise<ApplicationNote>;
+  getApplicationActivity(id: string): Promise<ActivityEntry[]>;
+  logApplicationActivity(id: string, values: ActivityRequest): Promise<ActivityEntry>;
+  getApplicationPdf(id: string): Promise<Blob>;
+  getApplicationDocument(id: string, documentId: string): Promise<Blob>;
+  getApplicationLetters(id: string): Promise<ApplicationLetter[]>;
+  /** Keeps a copy of a generated letter on the application's record. */
+  saveApplicationLetter(id: string, pdf: Blob, values: SaveLetterRequest): Promise<ApplicationLetter>;
+  getApplicationLetter(id: string, letterId: string): Promise<Blob>;
+  getLetterTemplates(): Promise<LetterTemplate[]>;
+  updateLetterTemplate(kind: LetterKind, values: Omit<LetterTemplate, "kind">): Promise<LetterTemplate>;
+  getStorageStatus(): Promise<StorageStatus>;
+}
+
+// ---------- Errors ----------
+
+export { ApiError };
+
+// ---------- 401 handling ----------
+
+type UnauthorizedHandler = () => void;
+
+const redirectToLogin: UnauthorizedHandler = () => {
+  session.clear();
+  if (window.location.pathname !== "/admin/login") {
+    window.location.assign("/admin/login");
+  }
+};
+
+let unauthorizedHandler: UnauthorizedHandler = redirectToLogin;
+
+/** Overrides what happens when an authenticated request comes back 401. */
+export function setUnauthorizedHandler(handler: UnauthorizedHandler | null) {
+  unauthorizedHandler = handler ?? redirectToLogin;
+}
+
+// ---------- Core request ----------
+
+interface RequestOptions {
+  method?: "GET" | "POST" | "PATCH" | "DELETE";
+  body?: unknown;
+  auth?: boolean;
+  /** Which API prefix the path is relative to. */
+  scope?: "admin" | "public";
+  responseType?: "json" | "blob";
+  headers?: Record<string, string>;
+  /** Message used when the backend does not send one of its own. */
+  fallbackMessage?: string;
+}
+
+async function parseBody(res: Response): Promise<unknown> {
+  const text = await res.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function errorMessage(data: unknown, fallback: string): string {
+  if (data && typeof data === "object" && "message" in data) {
+    const { message } = data as { message?: unknown };
+    if (typeof message === "string" && message) return message;
+  }
+  return fallback;
+}
+
+async function request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+  const {
+    method = "GET",
+    body,
+    auth = true,
+    scope = "admin",
+    responseType = "json",
+    fallbackMessage = "Request failed",
+  } = options;
+
+  const headers: Record<string, string> = { ...options.headers };
+  if (body !== undefined) headers["Content-Type"] = "application/json";
+  if (auth) {
+    const token = session.getToken();
+    if (token) headers.Authorization = `Bearer ${token}`;
+  }
+
+  let res: Response;
+  try {
+    const baseUrl = scope === "public" ? PUBLIC_API_URL : BACKEND_URL;
+    res = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+  } catch (err) {
+    throw new ApiError("Unable to reach backend server", 0, err);
+  }
+
+  if (res.status === 401 && auth) {
+    unauthorizedHandler();
+    throw new ApiError("Your session has expired. Please log in again.", 401);
+  }
+
+  if (!res.ok) {
+    const data = await parseBody(res);
+    throw new ApiError(errorMessage(data, fallbackMessage), res.status, data);
+  }
+
+  if (responseType === "blob") return (await res.blob()) as T;
+  return (await parseBody(res)) as T;
+}
+
+interface UploadOptions extends UploadProgressOptions {
+  scope?: "admin" | "public";
+  auth?: boolean;
+  fallbackMessage?: string;
+}
+
+/**
+ * Multipart upload. Uses XHR rather than fetch because fetch can't report
+ * upload progress. Unauthenticated unless `auth` is set, as applicants upload
+ * their documents anonymously.
+ */
+function upload<T>(path: string, body: FormData, options: UploadOptions = {}): Promise<T> {
+  const { scope = "public", auth = false, onProgress, signal, fallbackMessage = "Upload failed" } = options;
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", `${scope === "public" ? PUBLIC_API_URL : BACKEND_URL}${path}`);
+    const token = auth ? session.getToken() : null;
+    if (token) xhr.setRequestHeader("Authorization", `Bearer ${token}`);
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(Math.round((event.loaded / event.total) * 100));
+    };
+
+    const parse = () => {
+      try {
+        return xhr.responseText ? JSON.parse(xhr.responseText) : null;
+      } catch {
+        return xhr.responseText;
+      }
+    };
+
+    xhr.onload = () => {
+      if (xhr.status === 401 && auth) {
+        unauthorizedHandler();
+        reject(new ApiError("Your session has expired. Please log in again.", 401));
+        return;
+      }
+      const data = parse();
+      if (xhr.status >= 200 && xhr.status < 300) resolve(data as T);
+      else reject(new ApiError(errorMessage(data, fallbackMessage), xhr.status, data));
+    };
+    xhr.onerror = () => reject(new ApiError("Unable to reach backend server", 0));
+    xhr.onabort = () => reject(new DOMException("Upload cancelled", "AbortError"));
+
+    signal?.addEventListener("abort", () => xhr.abort());
+    xhr.send(body);
+  });
+}
+
+function toSearchParams(query: Partial<ApplicationQuery>): string {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== "" && value !== undefined && value !== null) params.set(key, String(value));
+  });
+  const search = params.toString();
+  return search ? `?${search}` : "";
+}
+
+// ---------- Endpoints ----------
+
+const httpDataSource: DataSource = {
+  // Public applicant form
+  submitApplication(values: ApplicationInput, { idempotencyKey }: SubmitOptions = {}): Promise<MessageResponse> {
+    return request("/applications", {
+      method: "POST",
+      body: values,
+      headers: idempotencyKey ? { "Idempotency-Key": idempotencyKey } : undefined,
+      auth: false,
+      scope: "public",
+      fallbackMessage: "Unable to submit loan application",
+    });
+  },
+
+  checkDuplicate(values: DuplicateCheckRequest): Promise<DuplicateCheckResponse> {
+    return request("/applications/duplicate-check", {
+      method: "POST",
+      body: values,
+      auth: false,
+      scope: "public",
+    });
+  },
+
+  uploadDocument(
+    file: File,
+    kind: DocumentKind,
+    options: UploadProgressOptions = {}
+  ): Promise<ApplicationDocument> {
+    const body = new FormData();
+    body.append("file", file);
+    body.append("kind", kind);
+    return upload("/documents", body, { ...options, fallbackMessage: `Unable to upload ${file.name}` });
+  },
+
+  sendOtp(phoneNumber: string): Promise<OtpChallenge> {
+    return request("/otp/send", {
+      method: "POST",
+      body: { phoneNumber },
+      auth: false,
+      scope: "public",
+      fallbackMessage: "Unable to send verification code",
+    });
+  },
+
+  verifyOtp(challengeId: string, code: string): Promise<OtpVerification> {
+    return request("/otp/verify", {
+      method: "POST",
+      body: { challengeId, code },
+      auth: false,
+      scope: "public",
+      fallbackMessage: "Unable to verify code",
+    });
+  },
+
+  // Admin auth
+  login(credentials: LoginRequest): Promise<LoginResponse> {
+    return request("/login", {
+      method: "POST",
+      body: credentials,
+      auth: false,
+      fallbackMessage: "Invalid credentials",
+    });
+  },
+
+  refreshSession(refreshToken: string | null): Promise<RefreshResponse> {
+    return request("/refresh", {
+      method: "POST",
+      body: { refreshToken },
+      fallbackMessage: "Unable to extend your session",
+    });
+  },
+
+  updateAdmin(values: AdminUpdateRequest): Promise<MessageResponse> {
+    return request("/admin/update", {
+      method: "PATCH",
+      body: values,
+      fallbackMessage: "Unable to update password",
+    });
+  },
+
+  // Applications
+  getApplications(query: Partial<ApplicationQuery> = {}): Promise<ApplicationListResponse> {
+    return request(`/applications${toSearchParams(query)}`, {
+      fallbackMessage: "Failed to load applications",
+    });
+  },
+
+  /** Walks every page of the list for the given filters. */
+  async getAllApplications(query: Partial<ApplicationQuery> = {}): Promise<Application[]> {
+    const pageSize = 100;
+    const items: Application[] = [];
+    for (let page = 1; ; page++) {
+      const data = await this.getApplications({ ...query, page, pageSize });
+      items.push(...data.items);
+      if (data.items.length < pageSize || items.length >= data.total) return items;
+    }
+  },
+
+  deleteApplication(id: string): Promise<MessageResponse> {
+    return request(`/applications/${id}`, { method: "DELETE", fallbackMessage: "Delete failed" });
+  },
+
+  updateApplication(id: string, values: Partial<ApplicationInput>): Promise<Application> {
+    return request(`/applications/${id}`, {
+      method: "PATCH",
+      body: values,
+      fallbackMessage: "Unable to save changes",
+    });
+  },
+
+  mergeApplications(id: string, duplicateId: string): Promise<Application> {
+    return request(`/applications/${id}/merge`, {
+      method: "POST",
+      body: { duplicateId },
+      fallbackMessage: "Merge failed",
+    });
+  },
+
+  getApplicationDuplicates(ids: string[]): Promise<Record<string, DuplicateMatch[]>> {
+    return request("/applications/duplicates", {
+      method: "POST",
+      body: { ids },
+      fallbackMessage: "Failed to load duplicates",
+    });
+  },
+
+  updateApplicationStatus(id: string, values: StatusUpdateRequest): Promise<Application> {
+    return request(`/applications/${id}/status`, {
+      method: "PATCH",
+      body: values,
+      fallbackMessage: "Status update failed",
+    });
+  },
+
+  assignApplication(id: string, assignee: string): Promise<Application> {
+    return request(`/applications/${id}/assign`, {
+      method: "PATCH",
+      body: { assignee },
+      fallbackMessage: "Assignment failed",
+    });
+  },
+
+  getApplicationNotes(id: string): Promise<ApplicationNote[]> {
+    return request(`/applications/${id}/notes`, { fallbackMessage: "Failed to load notes" });
+  },
+
+  addApplicationNote(id: string, text: string): Promise<ApplicationNote> {
+    return request(`/applications/${id}/notes`, {
+      method: "POST",
+      body: { text },
+      fallbackMessage: "Unable to save note",
+    });
+  },
+
+  getApplicationActivity(id: string): Promise<ActivityEntry[]> {
+    return request(`/applications/${id}/activity`, { fallbackMessage: "Failed to load activity" });
+  },
+
+  logApplicationActivity(id: string, values: ActivityRequest): Promise<ActivityEntry> {
+    return request(`/applications/${id}/activity`, { method: "POST", body: values });
+  },
+
+  getApplicationPdf(id: string): Promise<Blob> {
+    return request(`/applications/${id}/pdf`, {
+      responseType: "blob",
+      fallbackMessage: "PDF download failed",
+    });
+  },
+
+  getApplicationDocument(id: string, documentId: string): Promise<Blob> {
+    return request(`/applications/${id}/documents/${documentId}`, {
+      responseType: "blob",
+      fallbackMessage: "Unable to load document",
+    });
+  },
+
+  getApplicationLetters(id: string): Promise<ApplicationLetter[]> {
+    return request(`/applications/${id}/letters`, { fallbackMessage: "Failed to load letters" });
+  },
+
+  saveApplicationLetter(id: string, pdf: Blob, values: SaveLetterRequest): Promise<ApplicationLetter> {
+    const body = new FormData();
+    body.append("file", pdf, values.fileName);
+    body.append("kind", values.kind);
+    body.append("subject", values.subject);
+    return upload(`/applications/${id}/letters`, body, {
+      scope: "admin",
+      auth: true,
+      fallbackMessage: "Unable to save the letter",
+    });
+  },
+
+  getApplicationLetter(id: string, letterId: string): Promise<Blob> {
+    return request(`/applications/${id}/letters/${letterId}`, {
+      responseType: "blob",
+      fallbackMessage: "Unable to load letter",
+    });
+  },
+
+  getLetterTemplates(): Promise<LetterTemplate[]> {
+    return request("/letter-templates", { fallbackMessage: "Failed to load letter templates" });
+  },
+
+  updateLetterTemplate(kind: LetterKind, values: Omit<LetterTemplate, "kind">): Promise<LetterTemplate> {
+    return request(`/letter-templates/${kind}`, {
+      method: "PATCH",
+      body: values,
+      fallbackMessage: "Unable to save the template",
+    });
+  },
+
+  getStorageStatus(): Promise<StorageStatus> {
+    return request("/storage-status");
+  },
+};
+
+// The app only ever talks to `api`; the config decides what serves it
+export const api: DataSource = IS_OFFLINE
+  ? createIndexedDbDataSource({ onUnauthorized: () => unauthorizedHandler() })
+  : httpDataSource;
@@ -0,0 +1,84 @@
+// src/lib/application-columns.ts
+import type { Application, SortOrder } from "@/lib/api";
+import { formatReferral, getReferrals } from "@/lib/referrals";
+
+export type ColumnId =
+  | "name"
+  | "phoneNumber"
+  | "primaryContactNumber"
+  | "gender"
+  | "dateOfBirth"
+  | "address"
+  | "loanCategory"
+  | "referral"
+  | "submittedAt"
+  | "status"
+  | "assignedTo";
+
+export interface ColumnDefinition {
+  id: ColumnId;
+  label: string;
+  /** Field the backend sorts on when this column header is clicked. */
+  sortField: string;
+  /** Order used the first time the column is sorted. */
+  defaultOrder: SortOrder;
+}
+
+export const COLUMNS: Record<ColumnId, ColumnDefinition> = {
+  name: { id: "name", label: "Name", sortField: "name", defaultOrder: "asc" },
+  phoneNumber: { id: "phoneNumber", label: "Phone", sortField: "phoneNumber", defaultOrder: "asc" },
+  primaryContactNumber: {
+    id: "primaryContactNumber",
+    label: "Primary Contact",
+    sortField: "primaryContactNumber",
+    defaultOrder: "asc",
+  },
+  gender: { id: "gender", label: "Gender", sortField: "gender", defaultOrder: "asc" },
+  dateOfBirth: { id: "dateOfBirth", label: "DOB", sortField: "dateOfBirth", defaultOrder: "asc" },
+  address: { id: "address", label: "Address", sortField: "address", defaultOrder: "asc" },
+  loanCategory: { id: "loanCategory", label: "Loan", sortField: "loanCategory", defaultOrder: "asc" },
+  referral: { id: "referral", label: "Referrals", sortField: "referrals.name", defaultOrder: "asc" },
+  submittedAt: { id: "submittedAt", label: "Date", sortField: "submittedAt", defaultOrder: "desc" },
+  status: { id: "status", label: "Status", sortField: "status", defaultOrder: "asc" },
+  assignedTo: { id: "assignedTo", label: "Assigned To", sortField: "assignedTo", defaultOrder: "asc" },
+};
+
+/** Every column in its default position; the first five are visible by default. */
+export const DEFAULT_COLUMN_ORDER: ColumnId[] = [
+  "name",
+  "phoneNumber",
+  "loanCategory",
+  "submittedAt",
+  "status",
+  "primaryContactNumber",
+  "gender",
+  "dateOfBirth",
+  "address",
+  "referral",
+  "assignedTo",
+];
+
+export const DEFAULT_HIDDEN_COLUMNS: ColumnId[] = [
+  "primaryContactNumber",
+  "gender",
+  "dateOfBirth",
+  "address",
+  "referral",
+  "assignedTo",
+];
+
+/** Plain-text value of a column, used for table cells and exports. */
+export function getColumnText(app: Application, id: ColumnId): string {
+  switch (id) {
+    case "dateOfBirth":
+      return app.dateOfBirth ? new Date(app.dateOfBirth).toLocaleDateString() : "";
+    case "submittedAt":
+      return new Date(app.submittedAt).toLocaleDateString();
+    case "referral":
+      return getReferrals(app).map(formatReferral).join("; ");
+    case "status":
+      return app.status ?? "new";
+    default:
+      return app[id] ?? "";
+  }
+}
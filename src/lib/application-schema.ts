@@ -0,0 +1,294 @@
+// src/lib/application-schema.ts
+import * as z from "zod";
+import type { LoanDetails } from "@/lib/api";
+import { SECTION_FIELDS, getLoanSection } from "@/lib/loan-details";
+import { EMI_LIMITS, buildEmiScenario, getDefaultRate } from "@/lib/emi";
+import { DOCUMENT_LABELS, getDocumentRequirements, type ApplicationDocument } from "@/lib/documents";
+import {
+  aadhaarField,
+  dateOfBirthField,
+  mobileNumberField,
+  normalizeMobileNumber,
+  panField,
+  pinCodeField,
+} from "@/lib/validation";
+import { MAX_REFERRALS } from "@/lib/referrals";
+
+// ---------- Numeric fields ----------
+
+// Numbers are kept as strings while the applicant types and converted on submit
+interface NumberRule {
+  min: number;
+  max: number;
+  integer?: boolean;
+}
+
+const NUMBER_RULES = {
+  loanAmount: { min: EMI_LIMITS.amount.min, max: EMI_LIMITS.amount.max },
+  tenureMonths: { min: EMI_LIMITS.tenureMonths.min, max: EMI_LIMITS.tenureMonths.max, integer: true },
+  monthlyIncome: { min: 1, max: 100_000_000 },
+  propertyValue: { min: 100_000, max: 1_000_000_000 },
+  vehicleYear: { min: 1980, max: new Date().getFullYear() + 1, integer: true },
+  businessTurnover: { min: 1, max: 10_000_000_000 },
+  businessVintageYears: { min: 0, max: 100, integer: true },
+} satisfies Partial<Record<keyof LoanDetails, NumberRule>>;
+
+/** Returns an error message, or null when the value is a number within the rule. */
+function checkNumber(value: string | undefined, label: string, rule: NumberRule): string | null {
+  const text = value?.trim() ?? "";
+  if (!text) return `${label} is required`;
+
+  const number = Number(text);
+  if (Number.isNaN(number)) return `${label} must be a number`;
+  if (rule.integer && !Number.isInteger(number)) return `${label} must be a whole number`;
+  if (number < rule.min) return `${label} must be at least ${rule.min.toLocaleString("en-IN")}`;
+  if (number > rule.max) return `${label} must be at most ${rule.max.toLocaleString("en-IN")}`;
+  return null;
+}
+
+const numberField = (label: string, rule: NumberRule) =>
+  z.string().superRefine((value, ctx) => {
+    const message = checkNumber(value, label, rule);
+    if (message) ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+  });
+
+// ---------- Step schemas ----------
+
+export const personalSchema = z.object({
+  name: z.string().min(2, "Name must be at least 2 characters").max(100),
+  dateOfBirth: dateOfBirthField(),
+  gender: z.string().min(1, "Please select a gender"),
+  panNumber: panField(),
+  aadhaarNumber: aadhaarField(),
+});
+
+export const contactSchema = z.object({
+  phoneNumber: mobileNumberField("Phone number"),
+  primaryContactNumber: mobileNumberField("Primary contact"),
+  address: z.string().min(10, "Address must be at least 10 characters").max(500),
+  pinCode: pinCodeField(),
+  city: z.string().trim().min(1, "City is required").max(100),
+  state: z.string().trim().min(1, "State is required").max(100),
+  // Filled in by the OTP check; the token only counts for the number it was issued for
+  phoneVerificationToken: z.string().optional(),
+  verifiedPhoneNumber: z.string().optional(),
+});
+
+export const loanSchema = z.object({
+  loanCategory: z.string().min(1, "Please select a loan category"),
+  loanCategoryOther: z.string().optional(),
+  loanAmount: numberField("Loan amount", NUMBER_RULES.loanAmount),
+  tenureMonths: numberField("Tenure", NUMBER_RULES.tenureMonths),
+  monthlyIncome: numberField("Monthly income", NUMBER_RULES.monthlyIncome),
+  employmentType: z.string().min(1, "Please select an employment type"),
+  // Set from the EMI calculator; empty means the category's default rate
+  interestRate: z.string().optional(),
+  // Category-specific sections; required only for their category (see below)
+  propertyValue: z.string().optional(),
+  vehicleMake: z.string().optional(),
+  vehicleModel: z.string().optional(),
+  vehicleYear: z.string().optional(),
+  businessTurnover: z.string().optional(),
+  businessVintageYears: z.string().optional(),
+});
+
+export const referrerSchema = z.object({
+  name: z.string().trim().min(2, "Referrer name is required").max(100),
+  phone: mobileNumberField("Referrer phone"),
+  relationship: z.string().min(1, "Please select a relationship"),
+});
+
+export const referralSchema = z.object({
+  referrals: z.array(referrerSchema).max(MAX_REFERRALS, `You can add up to ${MAX_REFERRALS} referrers`),
+});
+
+// Files are uploaded as they're picked; the form only holds the references
+export const documentsSchema = z.object({
+  documents: z.array(z.custom<ApplicationDocument>()),
+});
+
+// ---------- Full form ----------
+
+export const applicationSchema = personalSchema
+  .merge(contactSchema)
+  .merge(loanSchema)
+  .merge(referralSchema)
+  .merge(documentsSchema)
+  .superRefine((values, ctx) => {
+    if (values.loanCategory === "other" && !values.loanCategoryOther?.trim()) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["loanCategoryOther"],
+        message: "Please specify the loan category",
+      });
+    }
+
+    const issue = (path: keyof ApplicationFormValues, message: string | null) =>
+      message && ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+
+    const verifiedFor = normalizeMobileNumber(values.verifiedPhoneNumber ?? "");
+    if (!values.phoneVerificationToken || verifiedFor !== normalizeMobileNumber(values.phoneNumber)) {
+      issue("phoneVerificationToken", "Please verify your phone number");
+    }
+
+    switch (getLoanSection(values.loanCategory)) {
+      case "housing":
+        issue("propertyValue", checkNumber(values.propertyValue, "Property value", NUMBER_RULES.propertyValue));
+        break;
+      case "vehicle":
+        issue("vehicleMake", values.vehicleMake?.trim() ? null : "Vehicle make is required");
+        issue("vehicleModel", values.vehicleModel?.trim() ? null : "Vehicle model is required");
+        issue(
+          "vehicleYear",
+          checkNumber(values.vehicleYear, "Vehicle year", NUMBER_RULES.vehicleYear) ??
+            // A new vehicle can't be more than a year old
+            (values.loanCategory === "vehicle-new" && Number(values.vehicleYear) < new Date().getFullYear() - 1
+              ? "A new vehicle must be from this year or last year"
+              : null)
+        );
+        break;
+      case "business":
+        issue(
+          "businessTurnover",
+          checkNumber(values.businessTurnover, "Annual turnover", NUMBER_RULES.businessTurnover)
+        );
+        issue(
+          "businessVintageYears",
+          checkNumber(values.businessVintageYears, "Years in business", NUMBER_RULES.businessVintageYears)
+        );
+        break;
+    }
+
+    const missing = getDocumentRequirements(values.loanCategory, values.employmentType)
+      .filter((doc) => doc.required && !values.documents?.some((d) => d.kind === doc.kind))
+      .map((doc) => DOCUMENT_LABELS[doc.kind]);
+    if (missing.length) issue("documents", `Please upload: ${missing.join(", ")}`);
+  });
+
+export type ApplicationFormValues = z.infer<typeof applicationSchema>;
+
+export const applicationDefaults: ApplicationFormValues = {
+  name: "",
+  dateOfBirth: "",
+  gender: "",
+  panNumber: "",
+  aadhaarNumber: "",
+  phoneNumber: "",
+  primaryContactNumber: "",
+  address: "",
+  pinCode: "",
+  city: "",
+  state: "",
+  phoneVerificationToken: "",
+  verifiedPhoneNumber: "",
+  loanCategory: "",
+  loanCategoryOther: "",
+  loanAmount: "",
+  tenureMonths: "",
+  monthlyIncome: "",
+  employmentType: "",
+  interestRate: "",
+  propertyValue: "",
+  vehicleMake: "",
+  vehicleModel: "",
+  vehicleYear: "",
+  businessTurnover: "",
+  businessVintageYears: "",
+  referrals: [],
+  documents: [],
+};
+
+/** Converts the loan fields to numbers, dropping sections that don't apply to the category. */
+export function toLoanDetails(values: ApplicationFormValues): LoanDetails {
+  const section = getLoanSection(values.loanCategory);
+  const included = (field: keyof LoanDetails) => !!section && SECTION_FIELDS[section].includes(field);
+  const number = (field: keyof LoanDetails & keyof ApplicationFormValues) =>
+    included(field) ? Number(values[field]) : undefined;
+  const text = (field: keyof LoanDetails & keyof ApplicationFormValues) =>
+    included(field) ? values[field]?.trim() : undefined;
+
+  const loanAmount = Number(values.loanAmount);
+  const tenureMonths = Number(values.tenureMonths);
+  const monthlyIncome = Number(values.monthlyIncome);
+  const annualRate = Number(values.interestRate) || getDefaultRate(values.loanCategory);
+
+  return {
+    loanAmount,
+    tenureMonths,
+    monthlyIncome,
+    employmentType: values.employmentType,
+    propertyValue: number("propertyValue"),
+    vehicleMake: text("vehicleMake"),
+    vehicleModel: text("vehicleModel"),
+    vehicleYear: number("vehicleYear"),
+    businessTurnover: number("businessTurnover"),
+    businessVintageYears: number("businessVintageYears"),
+    emiScenario: buildEmiScenario(loanAmount, annualRate, tenureMonths, monthlyIncome),
+  };
+}
+
+/** A loan picked in the landing-page calculator, carried to the form in router state. */
+export interface LoanScenario {
+  loanCategory: string;
+  amount: number;
+  annualRate: number;
+  tenureMonths: number;
+}
+
+/** Form values to start from for a calculator scenario; missing or malformed parts are skipped. */
+export function scenarioToValues(scenario?: Partial<LoanScenario> | null): Partial<ApplicationFormValues> {
+  if (!scenario) return {};
+  const values: Partial<ApplicationFormValues> = {};
+  const positive = (value: unknown) => typeof value === "number" && value > 0;
+
+  if (typeof scenario.loanCategory === "string") values.loanCategory = scenario.loanCategory;
+  if (positive(scenario.amount)) values.loanAmount = String(scenario.amount);
+  if (positive(scenario.tenureMonths)) values.tenureMonths = String(scenario.tenureMonths);
+  if (positive(scenario.annualRate)) values.interestRate = String(scenario.annualRate);
+  return values;
+}
+
+// ---------- Wizard steps ----------
+
+export type StepId = "personal" | "contact" | "loan" | "referrals" | "documents" | "review";
+
+export interface FormStep {
+  id: StepId;
+  title: string;
+  /** Fields validated before leaving the step; empty for the review step. */
+  fields: (keyof ApplicationFormValues)[];
+}
+
+const fieldsOf = (schema: z.AnyZodObject) => Object.keys(schema.shape) as (keyof ApplicationFormValues)[];
+
+export const FORM_STEPS: FormStep[] = [
+  { id: "personal", title: "Personal Details", fields: fieldsOf(personalSchema) },
+  { id: "contact", title: "Contact & Address", fields: fieldsOf(contactSchema) },
+  { id: "loan", title: "Loan Details", fields: fieldsOf(loanSchema) },
+  { id: "referrals", title: "Referrals", fields: fieldsOf(referralSchema) },
+  { id: "documents", title: "Documents", fields: fieldsOf(documentsSchema) },
+  { id: "review", title: "Review & Submit", fields: [] },
+];
+
+// ---------- Admin edits ----------
+
+/**
+ * Applicant details staff can correct from the dashboard. Identity numbers and
+ * PIN stay optional for applications submitted before they were collected.
+ */
+export const applicantEditSchema = z.object({
+  name: personalSchema.shape.name,
+  // Applicants age after submitting; the age rule applied when they applied
+  dateOfBirth: dateOfBirthField({ checkAge: false }),
+  gender: personalSchema.shape.gender,
+  panNumber: panField(false),
+  aadhaarNumber: aadhaarField(false),
+  phoneNumber: mobileNumberField("Phone number"),
+  primaryContactNumber: mobileNumberField("Primary contact"),
+  address: contactSchema.shape.address,
+  pinCode: pinCodeField(false),
+  city: z.string().trim().max(100),
+  state: z.string().trim().max(100),
+});
+
+export type ApplicantEditValues = z.infer<typeof applicantEditSchema>;
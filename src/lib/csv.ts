@@ -0,0 +1,13 @@
+// src/lib/csv.ts
+// Spreadsheets run cells starting with these as formulas; the values come from the public form
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (raw: string) => {
+  const value = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/** Serializes rows (header first) as RFC 4180 CSV, with formula-like cells neutralized. */
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map((cell) => escapeCell(cell ?? "")).join(",")).join("\r\n");
+}
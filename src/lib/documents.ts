@@ -0,0 +1,122 @@
+// src/lib/documents.ts
+import { getLoanSection } from "@/lib/loan-details";
+
+export type DocumentKind =
+  | "id_proof"
+  | "pan"
+  | "address_proof"
+  | "bank_statement"
+  | "salary_slip"
+  | "itr"
+  | "business_proof"
+  | "property_papers"
+  | "vehicle_papers";
+
+export const DOCUMENT_LABELS: Record<DocumentKind, string> = {
+  id_proof: "Aadhaar Card",
+  pan: "PAN Card",
+  address_proof: "Address Proof",
+  bank_statement: "Bank Statement (last 6 months)",
+  salary_slip: "Salary Slips (last 3 months)",
+  itr: "Income Tax Returns (last 2 years)",
+  business_proof: "Business Registration (GST / Udyam)",
+  property_papers: "Property Documents",
+  vehicle_papers: "Vehicle Quotation / RC",
+};
+
+/** A file already uploaded to the backend, referenced from the application by id. */
+export interface ApplicationDocument {
+  id: string;
+  kind: DocumentKind;
+  fileName: string;
+  contentType: string;
+  size: number;
+  uploadedAt: string;
+}
+
+export interface DocumentRequirement {
+  kind: DocumentKind;
+  required: boolean;
+  /** Whether several files make sense, e.g. one salary slip per month. */
+  multiple: boolean;
+}
+
+const need = (kind: DocumentKind, required = true, multiple = false): DocumentRequirement => ({
+  kind,
+  required,
+  multiple,
+});
+
+/** Documents asked for, based on the loan category and how the applicant earns. */
+export function getDocumentRequirements(category: string, employmentType: string): DocumentRequirement[] {
+  const documents = [need("id_proof"), need("pan"), need("address_proof", false), need("bank_statement", true, true)];
+
+  if (employmentType === "salaried") documents.push(need("salary_slip", true, true));
+  else if (employmentType) documents.push(need("itr", employmentType !== "retired", true));
+
+  switch (getLoanSection(category)) {
+    case "housing":
+      documents.push(need("property_papers", true, true));
+      break;
+    case "vehicle":
+      documents.push(need("vehicle_papers", false, true));
+      break;
+    case "business":
+      documents.push(need("business_proof"));
+      break;
+  }
+
+  return documents;
+}
+
+// ---------- File checks ----------
+
+export const ACCEPTED_FILE_TYPES = ["image/jpeg", "image/png", "application/pdf"];
+export const ACCEPT_ATTRIBUTE = ".jpg,.jpeg,.png,.pdf";
+export const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Returns why a file can't be uploaded, or null if it's acceptable. */
+export function validateFile(file: File): string | null {
+  if (!ACCEPTED_FILE_TYPES.includes(file.type)) return `${file.name}: only JPG, PNG or PDF files are accepted`;
+  if (file.size > MAX_FILE_SIZE) {
+    return `${file.name} is ${formatFileSize(file.size)}; the limit is ${formatFileSize(MAX_FILE_SIZE)}`;
+  }
+  return null;
+}
+
+const MAX_IMAGE_DIMENSION = 2000;
+const JPEG_QUALITY = 0.8;
+
+/**
+ * Downscales and re-encodes photos taken on phones, which are often several MB.
+ * PDFs, small images and anything the browser can't decode are returned as-is.
+ */
+export async function compressImage(file: File): Promise<File> {
+  if (!file.type.startsWith("image/") || file.size < 300 * 1024) return file;
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    return file;
+  }
+
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", JPEG_QUALITY));
+  if (!blob || blob.size >= file.size) return file;
+
+  const name = file.name.replace(/\.(png|jpe?g)$/i, "") + ".jpg";
+  return new File([blob], name, { type: "image/jpeg", lastModified: file.lastModified });
+}
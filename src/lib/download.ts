@@ -0,0 +1,11 @@
+// src/lib/download.ts
+/** Triggers a browser download for an in-memory file. */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => window.URL.revokeObjectURL(url), 1000);
+}
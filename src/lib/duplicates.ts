@@ -0,0 +1,120 @@
+// src/lib/duplicates.ts
+import type { Application } from "@/lib/api";
+import { normalizeMobileNumber } from "@/lib/validation";
+
+export type DuplicateReason = "phone" | "name" | "dob";
+
+export interface DuplicateMatch {
+  application: Application;
+  /** 0-1, how alike the two applicants are. */
+  score: number;
+  reasons: DuplicateReason[];
+}
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  phone: "Same phone number",
+  name: "Similar name",
+  dob: "Same date of birth",
+};
+
+const HONORIFICS = new Set(["mr", "mrs", "ms", "miss", "dr", "shri", "smt", "kumari"]);
+
+/** Lowercase name tokens without punctuation or honorifics, sorted so word order doesn't matter. */
+export function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, " ")
+    .split(/\s+/)
+    .filter((token) => token && !HONORIFICS.has(token))
+    .sort();
+}
+
+function levenshtein(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+/**
+ * Similarity of two names from 0 to 1, tolerant of word order, initials
+ * ("R. Kumar" vs "Ravi Kumar") and small typos.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (!tokensA.length || !tokensB.length) return 0;
+
+  const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  const tokenScore = (token: string, other: string) => {
+    if (token.length === 1 || other.length === 1) return token[0] === other[0] ? 0.9 : 0;
+    return 1 - levenshtein(token, other) / Math.max(token.length, other.length);
+  };
+
+  const total = shorter.reduce((sum, token) => sum + Math.max(...longer.map((other) => tokenScore(token, other))), 0);
+  // Extra words in the longer name (a middle name, say) only cost a little
+  return (total / shorter.length) * (1 - 0.05 * (longer.length - shorter.length));
+}
+
+const phonesOf = (app: Application) =>
+  [app.phoneNumber, app.primaryContactNumber].filter(Boolean).map(normalizeMobileNumber);
+
+const sameDate = (a: string, b: string) => !!a && !!b && a.slice(0, 10) === b.slice(0, 10);
+
+const NAME_THRESHOLD = 0.8;
+
+/** How alike two applications are, or null when they're unlikely to be the same person. */
+export function matchApplications(a: Application, b: Application): DuplicateMatch | null {
+  if (a._id === b._id) return null;
+
+  const phonesB = phonesOf(b);
+  const reasons: DuplicateReason[] = [];
+  if (phonesOf(a).some((phone) => phonesB.includes(phone))) reasons.push("phone");
+
+  const similarity = nameSimilarity(a.name, b.name);
+  if (similarity >= NAME_THRESHOLD) reasons.push("name");
+  if (sameDate(a.dateOfBirth, b.dateOfBirth)) reasons.push("dob");
+
+  // Any two signals together; a shared phone alone may just be a family member
+  if (reasons.length < 2) return null;
+
+  const score = (reasons.includes("phone") ? 0.4 : 0) + similarity * 0.35 + (reasons.includes("dob") ? 0.25 : 0);
+  return { application: b, score: Math.min(1, score), reasons };
+}
+
+/** Probable duplicates of `app` among `candidates`, best match first. */
+export function findDuplicates(app: Application, candidates: Application[]): DuplicateMatch[] {
+  return candidates
+    .map((candidate) => matchApplications(app, candidate))
+    .filter((match): match is DuplicateMatch => match !== null)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Indexes applications by phone number and date of birth (every probable
+ * duplicate shares at least one of them), so lookups only score a handful of
+ * candidates instead of the whole list.
+ */
+export function buildDuplicateIndex(applications: Application[]): (app: Application) => DuplicateMatch[] {
+  const byKey = new Map<string, Application[]>();
+  const add = (key: string, app: Application) => byKey.set(key, [...(byKey.get(key) ?? []), app]);
+  const keysOf = (app: Application) => [
+    ...phonesOf(app).map((phone) => `phone:${phone}`),
+    ...(app.dateOfBirth ? [`dob:${app.dateOfBirth.slice(0, 10)}`] : []),
+  ];
+
+  applications.forEach((app) => keysOf(app).forEach((key) => add(key, app)));
+
+  return (app) => {
+    const candidates = new Map<string, Application>();
+    keysOf(app).forEach((key) => byKey.get(key)?.forEach((c) => candidates.set(c._id, c)));
+    return findDuplicates(app, [...candidates.values()]);
+  };
+}
@@ -0,0 +1,122 @@
+// src/lib/emi.ts
+
+// Indicative annual rates (% p.a.) used until the applicant picks their own
+export const DEFAULT_RATES: Record<string, number> = {
+  personal: 12.5,
+  housing: 8.75,
+  business: 14,
+  "vehicle-old": 13.5,
+  "vehicle-new": 9.5,
+  other: 12,
+};
+
+const FALLBACK_RATE = 12;
+
+export const getDefaultRate = (category: string | undefined) => DEFAULT_RATES[category ?? ""] ?? FALLBACK_RATE;
+
+// Slider bounds, shared by the landing page and the loan form; the form validates against the same limits
+export const EMI_LIMITS = {
+  amount: { min: 10_000, max: 100_000_000, step: 10_000 },
+  annualRate: { min: 6, max: 24, step: 0.25 },
+  tenureMonths: { min: 6, max: 360, step: 6 },
+};
+
+// Share of monthly income lenders allow towards EMIs (fixed obligation to income ratio)
+export const MAX_EMI_TO_INCOME = 0.5;
+
+const monthlyRate = (annualRate: number) => annualRate / 12 / 100;
+
+/** Equated monthly instalment for a reducing-balance loan. */
+export function calculateEmi(principal: number, annualRate: number, months: number): number {
+  if (!principal || !months) return 0;
+  const r = monthlyRate(annualRate);
+  if (r === 0) return principal / months;
+  const factor = (1 + r) ** months;
+  return (principal * r * factor) / (factor - 1);
+}
+
+/** The largest principal whose EMI fits the given monthly budget. */
+export function principalForEmi(emi: number, annualRate: number, months: number): number {
+  if (!emi || !months) return 0;
+  const r = monthlyRate(annualRate);
+  if (r === 0) return emi * months;
+  const factor = (1 + r) ** months;
+  return (emi * (factor - 1)) / (r * factor);
+}
+
+export interface AmortizationRow {
+  month: number;
+  emi: number;
+  principal: number;
+  interest: number;
+  balance: number;
+}
+
+export function amortizationSchedule(principal: number, annualRate: number, months: number): AmortizationRow[] {
+  const emi = calculateEmi(principal, annualRate, months);
+  const r = monthlyRate(annualRate);
+  const rows: AmortizationRow[] = [];
+
+  let balance = principal;
+  for (let month = 1; month <= months; month++) {
+    const interest = balance * r;
+    // The last instalment clears whatever rounding left behind
+    const repaid = month === months ? balance : emi - interest;
+    balance = Math.max(balance - repaid, 0);
+    rows.push({ month, emi: repaid + interest, principal: repaid, interest, balance });
+  }
+
+  return rows;
+}
+
+export interface Eligibility {
+  eligible: boolean;
+  /** Highest EMI the declared income supports. */
+  maxEmi: number;
+  /** Highest amount affordable at the chosen rate and tenure. */
+  maxAmount: number;
+}
+
+/** Indicative only: compares the EMI against a fixed share of declared income. */
+export function checkEligibility(monthlyIncome: number, emi: number, annualRate: number, months: number): Eligibility {
+  const maxEmi = monthlyIncome * MAX_EMI_TO_INCOME;
+  return {
+    eligible: emi > 0 && emi <= maxEmi,
+    maxEmi,
+    maxAmount: principalForEmi(maxEmi, annualRate, months),
+  };
+}
+
+/** The repayment scenario an applicant chose, attached to their application. */
+export interface EmiScenario {
+  annualRate: number;
+  emi: number;
+  totalInterest: number;
+  totalPayable: number;
+  /** Present when the applicant declared an income. */
+  eligible?: boolean;
+  maxEligibleAmount?: number;
+}
+
+export function buildEmiScenario(
+  principal: number,
+  annualRate: number,
+  months: number,
+  monthlyIncome?: number
+): EmiScenario {
+  const emi = calculateEmi(principal, annualRate, months);
+  const scenario: EmiScenario = {
+    annualRate,
+    emi: Math.round(emi),
+    totalInterest: Math.round(emi * months - principal),
+    totalPayable: Math.round(emi * months),
+  };
+
+  if (monthlyIncome > 0) {
+    const eligibility = checkEligibility(monthlyIncome, emi, annualRate, months);
+    scenario.eligible = eligibility.eligible;
+    scenario.maxEligibleAmount = Math.round(eligibility.maxAmount);
+  }
+
+  return scenario;
+}
@@ -0,0 +1,98 @@
+// src/lib/export.ts
+import { format } from "date-fns";
+import type { Application, ApplicationQuery } from "@/lib/api";
+import { COLUMNS, getColumnText, type ColumnId } from "@/lib/application-columns";
+import { toCsv } from "@/lib/csv";
+import { downloadBlob } from "@/lib/download";
+import { STATUS_LABELS, getStatus } from "@/lib/status";
+
+export type ExportFormat = "csv" | "xlsx";
+
+const DATE_FORMAT = "dd-MM-yyyy";
+const DATE_TIME_FORMAT = "dd-MM-yyyy HH:mm";
+
+// Excel only detects UTF-8 CSVs (names in Kannada, Hindi, ...) with a byte order mark
+const UTF8_BOM = "\uFEFF";
+
+const parseDate = (value?: string) => {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/** Export value for a column: dates stay dates so XLSX cells are real dates. */
+function getExportValue(app: Application, id: ColumnId): string | Date | null {
+  switch (id) {
+    case "dateOfBirth":
+      return parseDate(app.dateOfBirth);
+    case "submittedAt":
+      return parseDate(app.submittedAt);
+    case "status":
+      return STATUS_LABELS[getStatus(app)];
+    default:
+      return getColumnText(app, id);
+  }
+}
+
+const dateFormatFor = (id: ColumnId) => (id === "submittedAt" ? DATE_TIME_FORMAT : DATE_FORMAT);
+
+function toCsvBlob(applications: Application[], columns: ColumnId[]): Blob {
+  const rows = [
+    columns.map((id) => COLUMNS[id].label),
+    ...applications.map((app) =>
+      columns.map((id) => {
+        const value = getExportValue(app, id);
+        return value instanceof Date ? format(value, dateFormatFor(id)) : value ?? "";
+      })
+    ),
+  ];
+  return new Blob([UTF8_BOM + toCsv(rows)], { type: "text/csv;charset=utf-8" });
+}
+
+async function toXlsxBlob(applications: Application[], columns: ColumnId[]): Promise<Blob> {
+  const { default: writeXlsxFile } = await import("write-excel-file/browser");
+
+  const header = columns.map((id) => ({ value: COLUMNS[id].label, fontWeight: "bold" as const }));
+  const rows = applications.map((app) =>
+    columns.map((id) => {
+      const value = getExportValue(app, id);
+      if (value instanceof Date) return { value, type: Date, format: dateFormatFor(id) };
+      return { value: value ?? "", type: String };
+    })
+  );
+
+  return writeXlsxFile([header, ...rows], {
+    sheet: "Applications",
+    stickyRowsCount: 1,
+    columns: columns.map((id) => ({ width: id === "address" ? 40 : 18 })),
+  }).toBlob();
+}
+
+/** Filename describing the active filters, e.g. applications_approved_housing_2026-01-01-to-2026-01-31_2026-02-01.csv */
+export function buildExportFilename(query: Partial<ApplicationQuery>, extension: ExportFormat, prefix = "applications") {
+  const slug = (value: string) =>
+    value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "");
+
+  const parts = [prefix];
+  if (query.status) parts.push(query.status);
+  if (query.category) parts.push(slug(query.category));
+  if (query.from || query.to) parts.push(`${query.from || "start"}-to-${query.to || "today"}`);
+  if (query.q) parts.push(`search-${slug(query.q)}`);
+  parts.push(format(new Date(), "yyyy-MM-dd"));
+
+  return `${parts.filter(Boolean).join("_")}.${extension}`;
+}
+
+export async function exportApplications(
+  applications: Application[],
+  columns: ColumnId[],
+  exportFormat: ExportFormat,
+  filename: string
+) {
+  const blob =
+    exportFormat === "xlsx" ? await toXlsxBlob(applications, columns) : toCsvBlob(applications, columns);
+  downloadBlob(blob, filename);
+}
@@ -0,0 +1,69 @@
+// src/lib/idb.ts
+/** Resolves with the request's result once it succeeds. */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Opens (and creates or upgrades) a database. `upgrade` runs inside the
+ * version-change transaction with the version the database had before.
+ */
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number, transaction: IDBTransaction) => void
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this browser"));
+      return;
+    }
+
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion, request.transaction!);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error("Close other tabs of this app to finish updating its database"));
+  });
+}
+
+/** Promise-based access to one object store. Each call runs in its own transaction. */
+export interface ObjectStore<T> {
+  get(key: IDBValidKey): Promise<T | undefined>;
+  getAll(): Promise<T[]>;
+  /** Records whose `index` equals `value`. */
+  getAllBy(index: string, value: IDBValidKey): Promise<T[]>;
+  count(): Promise<number>;
+  put(value: T): Promise<void>;
+  delete(key: IDBValidKey | IDBKeyRange): Promise<void>;
+}
+
+export function objectStore<T>(db: () => Promise<IDBDatabase>, name: string): ObjectStore<T> {
+  const run = async <R>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<R>) => {
+    const transaction = (await db()).transaction(name, mode);
+    // Settle only once the transaction has committed, so writes are durable
+    const committed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    const [result] = await Promise.all([promisifyRequest(action(transaction.objectStore(name))), committed]);
+    return result;
+  };
+
+  return {
+    get: (key) => run("readonly", (store) => store.get(key) as IDBRequest<T | undefined>),
+    getAll: () => run("readonly", (store) => store.getAll() as IDBRequest<T[]>),
+    getAllBy: (index, value) => run("readonly", (store) => store.index(index).getAll(value) as IDBRequest<T[]>),
+    count: () => run("readonly", (store) => store.count()),
+    put: async (value) => {
+      await run("readwrite", (store) => store.put(value));
+    },
+    delete: async (key) => {
+      await run("readwrite", (store) => store.delete(key));
+    },
+  };
+}
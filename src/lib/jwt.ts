@@ -0,0 +1,32 @@
+// src/lib/jwt.ts
+export interface JwtPayload {
+  exp?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+/** Decodes the payload of a JWT without verifying it. Returns null for malformed tokens. */
+export function decodeJwt(token: string): JwtPayload | null {
+  const [, payload] = token.split(".");
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "=");
+    const json = decodeURIComponent(
+      atob(padded)
+        .split("")
+        .map((c) => `%${c.charCodeAt(0).toString(16).padStart(2, "0")}`)
+        .join("")
+    );
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+}
+
+/** Expiry of the token in epoch milliseconds, or null if it carries no `exp` claim. */
+export function getTokenExpiry(token: string): number | null {
+  const exp = decodeJwt(token)?.exp;
+  return typeof exp === "number" ? exp * 1000 : null;
+}
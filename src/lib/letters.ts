@@ -0,0 +1,195 @@
+// src/lib/letters.ts
+import { format } from "date-fns";
+import type { Application } from "@/lib/api";
+import { calculateEmi, getDefaultRate } from "@/lib/emi";
+import { getLoanCategoryLabel } from "@/lib/loan-categories";
+import { formatCurrency } from "@/lib/loan-details";
+import { getStatus, type ApplicationStatus } from "@/lib/status";
+
+export type LetterKind = "sanction" | "rejection";
+
+export const LETTER_KINDS: LetterKind[] = ["sanction", "rejection"];
+
+export const LETTER_KIND_LABELS: Record<LetterKind, string> = {
+  sanction: "Sanction Letter",
+  rejection: "Rejection Letter",
+};
+
+/** Admin-editable wording. `{{placeholders}}` are filled from the application when the letter is generated. */
+export interface LetterTemplate {
+  kind: LetterKind;
+  subject: string;
+  body: string;
+}
+
+/** A generated letter kept on the application's record. */
+export interface ApplicationLetter {
+  _id: string;
+  kind: LetterKind;
+  subject: string;
+  fileName: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export const LETTER_PLACEHOLDERS = [
+  { key: "name", description: "Applicant name" },
+  { key: "reference", description: "Letter reference number" },
+  { key: "date", description: "Date of the letter" },
+  { key: "applicationDate", description: "Date the application was submitted" },
+  { key: "loanCategory", description: "Loan category" },
+  { key: "requestedAmount", description: "Amount the applicant asked for" },
+  { key: "amount", description: "Sanctioned amount" },
+  { key: "rate", description: "Interest rate, % p.a." },
+  { key: "tenure", description: "Tenure in months" },
+  { key: "emi", description: "Monthly instalment" },
+  { key: "conditions", description: "Sanction conditions, numbered" },
+  { key: "reason", description: "Rejection reason" },
+] as const;
+
+export type LetterPlaceholder = (typeof LETTER_PLACEHOLDERS)[number]["key"];
+
+export const DEFAULT_LETTER_TEMPLATES: Record<LetterKind, LetterTemplate> = {
+  sanction: {
+    kind: "sanction",
+    subject: "Sanction of your {{loanCategory}} application",
+    body: [
+      "Dear {{name}},",
+      "We are pleased to inform you that your {{loanCategory}} application dated {{applicationDate}} has been " +
+        "sanctioned on the following terms:",
+      "Sanctioned amount: {{amount}}\nRate of interest: {{rate}}% p.a.\nTenure: {{tenure}} months\n" +
+        "Monthly instalment (EMI): {{emi}}",
+      "The sanction is subject to the following conditions:\n{{conditions}}",
+      "This sanction is valid for 30 days from the date of this letter. Please visit our branch with the " +
+        "original documents to complete the formalities.",
+      "We thank you for choosing Sai Financial Services.",
+    ].join("\n\n"),
+  },
+  rejection: {
+    kind: "rejection",
+    subject: "Your {{loanCategory}} application",
+    body: [
+      "Dear {{name}},",
+      "Thank you for your {{loanCategory}} application dated {{applicationDate}} for {{requestedAmount}}.",
+      "After careful review we regret that we are unable to approve your application at this time, for the " +
+        "following reason:\n{{reason}}",
+      "This decision does not prevent you from applying again in future. If your circumstances change, or " +
+        "if you would like to discuss this decision, please contact our branch.",
+      "We thank you for your interest in Sai Financial Services.",
+    ].join("\n\n"),
+  },
+};
+
+export const DEFAULT_SANCTION_CONDITIONS = [
+  "Submission of original KYC and income documents for verification",
+  "Execution of the loan agreement and repayment mandate",
+  "Satisfactory verification of the details given in the application",
+].join("\n");
+
+/** The letter that fits a decided application, or null while it's undecided. */
+export function getLetterKindFor(status: ApplicationStatus): LetterKind | null {
+  if (status === "approved" || status === "disbursed") return "sanction";
+  if (status === "rejected") return "rejection";
+  return null;
+}
+
+/** Terms staff confirm before generating; prefilled from the application. */
+export interface LetterTerms {
+  amount: number;
+  annualRate: number;
+  tenureMonths: number;
+  /** One condition per line. */
+  conditions: string;
+  reason: string;
+}
+
+export function getDefaultLetterTerms(app: Application): LetterTerms {
+  const rejection = [...(app.statusHistory ?? [])].reverse().find((entry) => entry.to === "rejected");
+  return {
+    amount: app.loanAmount ?? 0,
+    annualRate: app.emiScenario?.annualRate ?? getDefaultRate(app.loanCategory),
+    tenureMonths: app.tenureMonths ?? 0,
+    conditions: DEFAULT_SANCTION_CONDITIONS,
+    reason: getStatus(app) === "rejected" ? (rejection?.reason ?? "") : "",
+  };
+}
+
+const formatDate = (value: string | Date) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? "" : format(date, "dd MMM yyyy");
+};
+
+export const getLetterReference = (app: Application, date = new Date()) =>
+  `SFS/${format(date, "yyyy")}/${app._id.slice(-6).toUpperCase()}`;
+
+export function getLetterValues(
+  app: Application,
+  terms: LetterTerms,
+  date = new Date()
+): Record<LetterPlaceholder, string> {
+  const conditions = terms.conditions
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line, i) => `${i + 1}. ${line}`)
+    .join("\n");
+  const category =
+    app.loanCategory === "other" && app.loanCategoryOther ? app.loanCategoryOther : getLoanCategoryLabel(app.loanCategory);
+
+  return {
+    name: app.name,
+    reference: getLetterReference(app, date),
+    date: formatDate(date),
+    applicationDate: formatDate(app.submittedAt),
+    loanCategory: category,
+    requestedAmount: formatCurrency(app.loanAmount),
+    amount: formatCurrency(terms.amount),
+    rate: String(terms.annualRate),
+    tenure: String(terms.tenureMonths),
+    emi: formatCurrency(Math.round(calculateEmi(terms.amount, terms.annualRate, terms.tenureMonths))),
+    conditions,
+    reason: terms.reason.trim(),
+  };
+}
+
+/** A letter with its placeholders filled, ready to print. */
+export interface RenderedLetter {
+  kind: LetterKind;
+  reference: string;
+  date: string;
+  /** Name and address lines. */
+  recipient: string[];
+  subject: string;
+  body: string;
+}
+
+export function renderLetter(
+  app: Application,
+  template: LetterTemplate,
+  terms: LetterTerms,
+  date = new Date()
+): RenderedLetter {
+  const values = getLetterValues(app, terms, date);
+  const locality = [[app.city, app.state].filter(Boolean).join(", "), app.pinCode].filter(Boolean).join(" - ");
+
+  return {
+    kind: template.kind,
+    reference: values.reference,
+    date: values.date,
+    recipient: [app.name, ...app.address.split("\n"), locality].map((line) => line?.trim()).filter(Boolean),
+    subject: fillTemplate(template.subject, values),
+    body: fillTemplate(template.body, values),
+  };
+}
+
+/** Replaces `{{placeholder}}` tokens; unknown placeholders are left in place so typos stay visible. */
+export function fillTemplate(text: string, values: Partial<Record<string, string>>): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (token, key: string) => values[key] ?? token);
+}
+
+/** Placeholders used in a template that aren't known, e.g. `{{nmae}}`. */
+export function findUnknownPlaceholders(text: string): string[] {
+  const known = new Set<string>(LETTER_PLACEHOLDERS.map((p) => p.key));
+  const found = [...text.matchAll(/\{\{\s*(\w+)\s*\}\}/g)].map((match) => match[1]);
+  return [...new Set(found.filter((key) => !known.has(key)))];
+}
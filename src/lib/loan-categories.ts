@@ -0,0 +1,16 @@
+// src/lib/loan-categories.ts
+export const LOAN_CATEGORIES = [
+  { value: "personal", label: "Personal Loan" },
+  { value: "housing", label: "Housing Loan" },
+  { value: "business", label: "Business Loan" },
+  { value: "vehicle-old", label: "Vehicle Loan (Old)" },
+  { value: "vehicle-new", label: "Vehicle Loan (New)" },
+  { value: "other", label: "Other" },
+] as const;
+
+export type LoanCategory = (typeof LOAN_CATEGORIES)[number]["value"];
+
+/** Label for a stored category; free-text "other" categories are returned as-is. */
+export function getLoanCategoryLabel(value: string): string {
+  return LOAN_CATEGORIES.find((c) => c.value === value)?.label ?? value;
+}
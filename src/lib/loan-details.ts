@@ -0,0 +1,109 @@
+// src/lib/loan-details.ts
+import type { LoanDetails } from "@/lib/api";
+import type { EmiScenario } from "@/lib/emi";
+
+export const EMPLOYMENT_TYPES = [
+  { value: "salaried", label: "Salaried" },
+  { value: "self_employed", label: "Self-employed professional" },
+  { value: "business_owner", label: "Business owner" },
+  { value: "retired", label: "Retired / Pensioner" },
+  { value: "other", label: "Other" },
+] as const;
+
+export function getEmploymentTypeLabel(value: string): string {
+  return EMPLOYMENT_TYPES.find((t) => t.value === value)?.label ?? value;
+}
+
+export type LoanSection = "housing" | "vehicle" | "business";
+
+/** The extra section a loan category asks for, if any. */
+export function getLoanSection(category: string): LoanSection | null {
+  if (category === "housing") return "housing";
+  if (category === "vehicle-old" || category === "vehicle-new") return "vehicle";
+  if (category === "business") return "business";
+  return null;
+}
+
+export const SECTION_FIELDS: Record<LoanSection, (keyof LoanDetails)[]> = {
+  housing: ["propertyValue"],
+  vehicle: ["vehicleMake", "vehicleModel", "vehicleYear"],
+  business: ["businessTurnover", "businessVintageYears"],
+};
+
+const currencyFormat = new Intl.NumberFormat("en-IN", {
+  style: "currency",
+  currency: "INR",
+  maximumFractionDigits: 0,
+});
+
+export function formatCurrency(value: number | string | undefined): string {
+  if (value === undefined || value === "" || Number.isNaN(Number(value))) return "";
+  return currencyFormat.format(Number(value));
+}
+
+/** Loan details as submitted (numbers) or still in the form (strings). */
+export type LoanDetailSource = { loanCategory?: string; emiScenario?: EmiScenario } & {
+  [K in Exclude<keyof LoanDetails, "emiScenario">]?: string | number;
+};
+
+type Row = [label: string, value: string];
+
+const plural = (value: string | number, unit: string) =>
+  value === "" || value === undefined ? "" : `${value} ${unit}${Number(value) === 1 ? "" : "s"}`;
+
+export const LOAN_SECTION_TITLES: Record<LoanSection, string> = {
+  housing: "Property Details",
+  vehicle: "Vehicle Details",
+  business: "Business Details",
+};
+
+/** Rows of the category-specific section (property, vehicle or business), if the category has one. */
+export function getLoanSectionRows(source: LoanDetailSource): Row[] {
+  switch (getLoanSection(source.loanCategory)) {
+    case "housing":
+      return [["Property Value", formatCurrency(source.propertyValue)]];
+    case "vehicle":
+      return [
+        ["Vehicle Make", String(source.vehicleMake ?? "")],
+        ["Vehicle Model", String(source.vehicleModel ?? "")],
+        ["Vehicle Year", String(source.vehicleYear ?? "")],
+      ];
+    case "business":
+      return [
+        ["Annual Turnover", formatCurrency(source.businessTurnover)],
+        ["Business Vintage", plural(source.businessVintageYears, "year")],
+      ];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Label/value rows for the loan details. The category-specific section is
+ * included unless the caller lays it out separately.
+ */
+export function getLoanDetailRows(source: LoanDetailSource, { includeSection = true } = {}): Row[] {
+  const rows: Row[] = [
+    ["Loan Amount", formatCurrency(source.loanAmount)],
+    ["Tenure", plural(source.tenureMonths, "month")],
+    ["Monthly Income", formatCurrency(source.monthlyIncome)],
+    ["Employment Type", source.employmentType ? getEmploymentTypeLabel(String(source.employmentType)) : ""],
+  ];
+
+  if (includeSection) rows.push(...getLoanSectionRows(source));
+
+  const scenario = source.emiScenario;
+  if (scenario) {
+    rows.push(["Indicative EMI", `${formatCurrency(scenario.emi)}/month at ${scenario.annualRate}% p.a.`]);
+    if (scenario.eligible !== undefined) {
+      rows.push([
+        "Indicative Eligibility",
+        scenario.eligible
+          ? "Within income limit"
+          : `Above income limit (up to ${formatCurrency(scenario.maxEligibleAmount)})`,
+      ]);
+    }
+  }
+
+  return rows;
+}
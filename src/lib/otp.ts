@@ -0,0 +1,91 @@
+// src/lib/otp.ts
+import { OTP_PROVIDER } from "@/config";
+import { api, ApiError } from "@/lib/api";
+
+export const OTP_LENGTH = 6;
+
+/** A code sent to a phone, as reported by the provider. */
+export interface OtpChallenge {
+  challengeId: string;
+  /** When the code stops working (ISO date). */
+  expiresAt: string;
+  /** When another code may be requested (ISO date). */
+  resendAvailableAt: string;
+  attemptsLeft: number;
+}
+
+export interface OtpVerification {
+  verified: boolean;
+  /** Proof of verification, sent with the application. */
+  token?: string;
+  attemptsLeft: number;
+  message?: string;
+}
+
+export interface OtpProvider {
+  send(phoneNumber: string): Promise<OtpChallenge>;
+  verify(challengeId: string, code: string): Promise<OtpVerification>;
+}
+
+const backendProvider: OtpProvider = {
+  send: (phoneNumber) => api.sendOtp(phoneNumber),
+  verify: (challengeId, code) => api.verifyOtp(challengeId, code),
+};
+
+// ---------- Stub ----------
+
+export const STUB_OTP_CODE = "123456";
+
+const STUB_EXPIRY_MS = 5 * 60 * 1000;
+const STUB_RESEND_MS = 30 * 1000;
+const STUB_MAX_ATTEMPTS = 5;
+
+interface StubChallenge extends OtpChallenge {
+  phoneNumber: string;
+}
+
+const stubChallenges = new Map<string, StubChallenge>();
+
+/** Mirrors the backend's rules (expiry, resend cooldown, attempts) without sending anything. */
+const stubProvider: OtpProvider = {
+  async send(phoneNumber) {
+    const now = Date.now();
+    const previous = [...stubChallenges.values()].find((c) => c.phoneNumber === phoneNumber);
+    if (previous && new Date(previous.resendAvailableAt).getTime() > now) {
+      throw new ApiError("Please wait before requesting another code", 429);
+    }
+    if (previous) stubChallenges.delete(previous.challengeId);
+
+    const challenge: StubChallenge = {
+      challengeId: `stub-${now}`,
+      phoneNumber,
+      expiresAt: new Date(now + STUB_EXPIRY_MS).toISOString(),
+      resendAvailableAt: new Date(now + STUB_RESEND_MS).toISOString(),
+      attemptsLeft: STUB_MAX_ATTEMPTS,
+    };
+    stubChallenges.set(challenge.challengeId, challenge);
+
+    const { phoneNumber: _, ...result } = challenge;
+    return result;
+  },
+
+  async verify(challengeId, code) {
+    const challenge = stubChallenges.get(challengeId);
+    if (!challenge || challenge.attemptsLeft <= 0) {
+      return { verified: false, attemptsLeft: 0, message: "Too many attempts. Please request a new code." };
+    }
+    if (new Date(challenge.expiresAt).getTime() < Date.now()) {
+      return { verified: false, attemptsLeft: 0, message: "This code has expired. Please request a new one." };
+    }
+
+    if (code !== STUB_OTP_CODE) {
+      challenge.attemptsLeft--;
+      return { verified: false, attemptsLeft: challenge.attemptsLeft, message: "Incorrect code" };
+    }
+
+    stubChallenges.delete(challengeId);
+    return { verified: true, token: `stub-token-${challengeId}`, attemptsLeft: challenge.attemptsLeft };
+  },
+};
+
+export const otpProvider: OtpProvider = OTP_PROVIDER === "stub" ? stubProvider : backendProvider;
@@ -0,0 +1,144 @@
+// src/lib/pdf-templates.ts
+import { format } from "date-fns";
+import type { Application } from "@/lib/api";
+import { getLoanCategoryLabel } from "@/lib/loan-categories";
+import {
+  LOAN_SECTION_TITLES,
+  getLoanDetailRows,
+  getLoanSection,
+  getLoanSectionRows,
+  type LoanSection,
+} from "@/lib/loan-details";
+import { formatReferral, getReferrals } from "@/lib/referrals";
+import { DOCUMENT_LABELS } from "@/lib/documents";
+import { STATUS_LABELS, getStatus } from "@/lib/status";
+import { ageOn, maskAadhaar } from "@/lib/validation";
+
+export type PdfRow = [label: string, value: string];
+
+export interface PdfSection {
+  title: string;
+  rows: (app: Application) => PdfRow[];
+}
+
+export interface PdfTemplate {
+  title: string;
+  sections: PdfSection[];
+  /** Paragraphs the applicant signs under. */
+  declaration: string[];
+}
+
+const formatDate = (value: string | undefined, pattern = "dd MMM yyyy") => {
+  const date = value ? new Date(value) : null;
+  return date && !Number.isNaN(date.getTime()) ? format(date, pattern) : "";
+};
+
+const capitalize = (value: string | undefined) => (value ? value.charAt(0).toUpperCase() + value.slice(1) : "");
+
+// ---------- Sections ----------
+
+const applicationSection: PdfSection = {
+  title: "Application",
+  rows: (app) => [
+    ["Application ID", app._id],
+    ["Submitted", formatDate(app.submittedAt, "dd MMM yyyy, hh:mm a")],
+    ["Status", STATUS_LABELS[getStatus(app)]],
+    ["Assigned To", app.assignedTo ?? ""],
+  ],
+};
+
+const applicantSection: PdfSection = {
+  title: "Personal Details",
+  rows: (app) => {
+    const age = ageOn(app.dateOfBirth, new Date(app.submittedAt));
+    return [
+      ["Name", app.name],
+      ["Date of Birth", [formatDate(app.dateOfBirth), age === null ? "" : `(${age} years)`].join(" ").trim()],
+      ["Gender", capitalize(app.gender)],
+      ["PAN", app.panNumber ?? ""],
+      ["Aadhaar", maskAadhaar(app.aadhaarNumber)],
+    ];
+  },
+};
+
+const contactSection: PdfSection = {
+  title: "Contact & Address",
+  rows: (app) => [
+    ["Phone Number", app.phoneVerified ? `${app.phoneNumber} (verified)` : app.phoneNumber],
+    ["Primary Contact", app.primaryContactNumber ?? ""],
+    ["Address", app.address],
+    ["City", app.city ?? ""],
+    ["State", app.state ?? ""],
+    ["PIN Code", app.pinCode ?? ""],
+  ],
+};
+
+const loanSection: PdfSection = {
+  title: "Loan Details",
+  rows: (app) => [
+    [
+      "Loan Category",
+      app.loanCategory === "other" && app.loanCategoryOther
+        ? `Other (${app.loanCategoryOther})`
+        : getLoanCategoryLabel(app.loanCategory),
+    ],
+    ...getLoanDetailRows(app, { includeSection: false }),
+  ],
+};
+
+const categorySection = (section: LoanSection): PdfSection => ({
+  title: LOAN_SECTION_TITLES[section],
+  rows: getLoanSectionRows,
+});
+
+const referralsSection: PdfSection = {
+  title: "Referrals",
+  rows: (app) => getReferrals(app).map((referral, i): PdfRow => [`Referrer ${i + 1}`, formatReferral(referral)]),
+};
+
+const documentsSection: PdfSection = {
+  title: "Documents",
+  rows: (app) =>
+    (app.documents ?? []).map((doc): PdfRow => [DOCUMENT_LABELS[doc.kind] ?? doc.kind, doc.fileName]),
+};
+
+// ---------- Templates ----------
+
+const BASE_DECLARATION = [
+  "I declare that the information given in this application is true, complete and correct to the best of my " +
+    "knowledge, and that I have not withheld any material fact.",
+  "I authorise Sai Financial Services to verify the details and documents provided, including with credit " +
+    "bureaus, my employer and references, and understand that the loan is subject to approval.",
+];
+
+const SECTION_DECLARATIONS: Record<LoanSection, string> = {
+  housing:
+    "I confirm that the property described above is free from encumbrances other than those disclosed, and " +
+    "agree to create a mortgage over it in favour of the lender if the loan is sanctioned.",
+  vehicle:
+    "I agree that the vehicle described above will be hypothecated to the lender until the loan is repaid in " +
+    "full, and that it will be kept insured for that period.",
+  business:
+    "I confirm that the turnover and vintage stated above are as per the books and returns of the business, " +
+    "and agree to provide financial statements when asked.",
+};
+
+/** Builds the PDF layout for a loan category: the shared sections plus the category's own. */
+export function getPdfTemplate(category: string): PdfTemplate {
+  const section = getLoanSection(category);
+  const label = category === "other" ? "Loan" : getLoanCategoryLabel(category);
+
+  return {
+    title: `${label} Application`,
+    sections: [
+      applicationSection,
+      applicantSection,
+      contactSection,
+      loanSection,
+      ...(section ? [categorySection(section)] : []),
+      referralsSection,
+      documentsSection,
+    ],
+    declaration: section ? [...BASE_DECLARATION, SECTION_DECLARATIONS[section]] : BASE_DECLARATION,
+  };
+}
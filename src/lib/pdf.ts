@@ -1,36 +1,331 @@
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
-import { LoanApplication } from './storage';
-
-export const generateApplicationPDF = (application: LoanApplication) => {
-  const doc = new jsPDF();
-  
-  // Add title
-  doc.setFontSize(20);
-  doc.text('Loan Application Form', 105, 20, { align: 'center' });
-  
-  // Add submission date
+import { format } from 'date-fns';
+import saiLogo from '@/assets/sai-logo.png';
+import type { Application } from './api';
+import { getPdfTemplate, type PdfTemplate } from './pdf-templates';
+import { LETTER_KIND_LABELS, type RenderedLetter } from './letters';
+
+export type BatchPdfFormat = 'zip' | 'merged';
+
+export interface PdfOptions {
+  /** Staff member shown in the footer. */
+  generatedBy?: string;
+  generatedAt?: Date;
+}
+
+const COMPANY_NAME = 'Sai Financial Services';
+const BRAND_COLOR: [number, number, number] = [41, 128, 185];
+
+// Page layout in mm (A4 portrait)
+const MARGIN_X = 14;
+const CONTENT_TOP = 38;
+const CONTENT_BOTTOM = 22;
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement | null>((resolve) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    // The PDF is still useful without the logo
+    image.onerror = () => resolve(null);
+    image.src = src;
+  });
+
+// The built-in PDF fonts have no rupee glyph
+const toPdfText = (value: string) => value.replace(/₹\s?/g, 'Rs. ');
+
+type Doc = jsPDF & { lastAutoTable?: { finalY: number } };
+
+const createDoc = (): Doc => new jsPDF({ unit: 'mm', format: 'a4' });
+
+function drawHeader(doc: Doc, title: string, logo: HTMLImageElement | null) {
+  const width = doc.internal.pageSize.getWidth();
+  const textX = logo ? MARGIN_X + 22 : MARGIN_X;
+
+  if (logo) doc.addImage(logo, 'PNG', MARGIN_X, 10, 18, 18);
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.setTextColor(...BRAND_COLOR);
+  doc.text(COMPANY_NAME, textX, 18);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.setTextColor(80);
+  doc.text(title, textX, 25);
+
+  doc.setDrawColor(...BRAND_COLOR);
+  doc.setLineWidth(0.5);
+  doc.line(MARGIN_X, 31, width - MARGIN_X, 31);
+}
+
+function drawFooter(doc: Doc, page: number, pageCount: number, options: PdfOptions) {
+  const width = doc.internal.pageSize.getWidth();
+  const y = doc.internal.pageSize.getHeight() - 10;
+  const generatedAt = format(options.generatedAt ?? new Date(), 'dd MMM yyyy, hh:mm a');
+  const generatedBy = options.generatedBy ? ` by ${options.generatedBy}` : '';
+
+  doc.setDrawColor(200);
+  doc.setLineWidth(0.2);
+  doc.line(MARGIN_X, y - 5, width - MARGIN_X, y - 5);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(120);
+  doc.text(`Generated${generatedBy} on ${generatedAt}`, MARGIN_X, y);
+  doc.text(`Page ${page} of ${pageCount}`, width - MARGIN_X, y, { align: 'right' });
+}
+
+function drawDeclaration(doc: Doc, template: PdfTemplate, startY: number) {
+  const width = doc.internal.pageSize.getWidth();
+  const bottom = doc.internal.pageSize.getHeight() - CONTENT_BOTTOM;
+  const paragraphs = template.declaration.map((text) => doc.splitTextToSize(text, width - MARGIN_X * 2) as string[]);
+  const lineHeight = 4.5;
+  const height = 10 + paragraphs.reduce((sum, lines) => sum + lines.length * lineHeight + 2, 0) + 28;
+
+  // Keep the declaration and signatures together on one page
+  let y = startY;
+  if (y + height > bottom) {
+    doc.addPage();
+    y = CONTENT_TOP;
+  }
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.setTextColor(...BRAND_COLOR);
+  doc.text('Declaration', MARGIN_X, y);
+  y += 7;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(40);
+  paragraphs.forEach((lines) => {
+    doc.text(lines, MARGIN_X, y);
+    y += lines.length * lineHeight + 2;
+  });
+
+  y += 18;
+  const lineWidth = 60;
+  doc.setDrawColor(120);
+  doc.setLineWidth(0.2);
+  doc.line(MARGIN_X, y, MARGIN_X + lineWidth, y);
+  doc.line(width - MARGIN_X - lineWidth, y, width - MARGIN_X, y);
+  doc.text('Signature of Applicant', MARGIN_X, y + 5);
+  doc.text('Date & Place', width - MARGIN_X - lineWidth, y + 5);
+}
+
+/** Lays out one application's sections and declaration, starting on the current page. */
+function drawApplication(doc: Doc, application: Application): PdfTemplate {
+  const template = getPdfTemplate(application.loanCategory);
+
+  let y = CONTENT_TOP;
+  template.sections.forEach((section) => {
+    const rows = section.rows(application).map(([label, value]) => [label, toPdfText(value) || '-']);
+
+    autoTable(doc, {
+      startY: y,
+      margin: { top: CONTENT_TOP, bottom: CONTENT_BOTTOM, left: MARGIN_X, right: MARGIN_X },
+      head: [[{ content: section.title, colSpan: 2 }]],
+      // autotable can't size the columns when every row is a single spanned cell
+      body: rows.length ? rows : [['None', '']],
+      theme: 'grid',
+      showHead: 'everyPage',
+      rowPageBreak: 'avoid',
+      headStyles: { fillColor: BRAND_COLOR },
+      columnStyles: { 0: { cellWidth: 55, fontStyle: 'bold' } },
+      styles: { fontSize: 10 },
+    });
+    y = (doc.lastAutoTable?.finalY ?? y) + 6;
+  });
+
+  drawDeclaration(doc, template, y + 4);
+  return template;
+}
+
+/** Header and footer go on last, once the page count is known. `titles` holds each page's header title. */
+function drawPageChrome(doc: Doc, titles: string[], logo: HTMLImageElement | null, options: PdfOptions) {
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    drawHeader(doc, titles[page - 1] ?? '', logo);
+    drawFooter(doc, page, pageCount, options);
+  }
+}
+
+/** Builds the branded application PDF from the loan category's template. */
+export const buildApplicationPDF = async (application: Application, options: PdfOptions = {}): Promise<jsPDF> => {
+  const doc = createDoc();
+  const logo = await loadImage(saiLogo);
+
+  const template = drawApplication(doc, application);
+  drawPageChrome(doc, Array(doc.getNumberOfPages()).fill(template.title), logo, options);
+
+  return doc;
+};
+
+/** The application PDF as a Blob, for when the backend can't render one. */
+export const generateApplicationPDF = async (application: Application, options: PdfOptions = {}): Promise<Blob> => {
+  const doc = await buildApplicationPDF(application, options);
+  return doc.output('blob');
+};
+
+// ---------- Merged batch ----------
+
+const TOC_ROW_HEIGHT = 7;
+
+interface BatchEntry {
+  application: Application;
+  firstPage: number;
+}
+
+export interface BatchApplicationPDF {
+  /** Appends an application, starting on a new page. */
+  add: (application: Application) => void;
+  /** Number of applications added so far. */
+  readonly count: number;
+  /** Prepends the table of contents and returns the finished document. */
+  toBlob: () => Blob;
+}
+
+const contentsRowsPerPage = (doc: Doc) =>
+  Math.floor((doc.internal.pageSize.getHeight() - CONTENT_BOTTOM - CONTENT_TOP - 14) / TOC_ROW_HEIGHT);
+
+/** Fills the first pages with a linked table of contents; `offset` is the number of contents pages. */
+function drawContents(doc: Doc, entries: BatchEntry[], offset: number) {
+  const width = doc.internal.pageSize.getWidth();
+  const perPage = contentsRowsPerPage(doc);
+
+  entries.forEach((entry, i) => {
+    const tocPage = Math.floor(i / perPage) + 1;
+    const row = i % perPage;
+    if (row === 0) {
+      doc.setPage(tocPage);
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(12);
+      doc.setTextColor(...BRAND_COLOR);
+      doc.text('Contents', MARGIN_X, CONTENT_TOP);
+    }
+
+    const y = CONTENT_TOP + 12 + row * TOC_ROW_HEIGHT;
+    const page = entry.firstPage + offset;
+    const { application } = entry;
+    const label = `${i + 1}. ${application.name || application._id}`;
+    const detail = `${getPdfTemplate(application.loanCategory).title} - ${application._id}`;
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.setTextColor(40);
+    doc.text(doc.splitTextToSize(label, 70)[0], MARGIN_X, y);
+    doc.setTextColor(110);
+    doc.text(doc.splitTextToSize(toPdfText(detail), width - MARGIN_X * 2 - 95)[0], MARGIN_X + 75, y);
+    doc.setTextColor(40);
+    doc.text(String(page), width - MARGIN_X, y, { align: 'right' });
+    doc.link(MARGIN_X, y - 4.5, width - MARGIN_X * 2, TOC_ROW_HEIGHT, { pageNumber: page });
+  });
+}
+
+/**
+ * Collects several applications into one PDF with a table of contents, one
+ * section per applicant. Applications are added one by one so callers can
+ * report progress and stop early.
+ */
+export const createBatchApplicationPDF = async (options: PdfOptions = {}): Promise<BatchApplicationPDF> => {
+  const doc = createDoc();
+  const logo = await loadImage(saiLogo);
+  const entries: BatchEntry[] = [];
+  const titles: string[] = [];
+
+  return {
+    add(application) {
+      if (entries.length) doc.addPage();
+      const firstPage = doc.getNumberOfPages();
+      const template = drawApplication(doc, application);
+      entries.push({ application, firstPage });
+      while (titles.length < doc.getNumberOfPages()) titles.push(template.title);
+    },
+
+    get count() {
+      return entries.length;
+    },
+
+    toBlob() {
+      const tocPages = Math.max(1, Math.ceil(entries.length / contentsRowsPerPage(doc)));
+      for (let i = 0; i < tocPages; i++) doc.insertPage(1);
+
+      drawContents(doc, entries, tocPages);
+      entries.forEach((entry, i) =>
+        doc.outline.add(null, `${i + 1}. ${entry.application.name || entry.application._id}`, {
+          pageNumber: entry.firstPage + tocPages,
+        })
+      );
+
+      drawPageChrome(doc, [...Array(tocPages).fill('Application Batch'), ...titles], logo, options);
+      return doc.output('blob');
+    },
+  };
+};
+
+// ---------- Letters ----------
+
+/** Prints a sanction or rejection letter on the letterhead. */
+export const generateLetterPDF = async (letter: RenderedLetter, options: PdfOptions = {}): Promise<Blob> => {
+  const doc = createDoc();
+  const logo = await loadImage(saiLogo);
+  const width = doc.internal.pageSize.getWidth();
+  const bottom = doc.internal.pageSize.getHeight() - CONTENT_BOTTOM;
+  const textWidth = width - MARGIN_X * 2;
+  const lineHeight = 5;
+
+  let y = CONTENT_TOP;
+  const ensureSpace = (height: number) => {
+    if (y + height <= bottom) return;
+    doc.addPage();
+    y = CONTENT_TOP;
+  };
+
+  doc.setFont('helvetica', 'normal');
   doc.setFontSize(10);
-  doc.text(`Submitted: ${new Date(application.submittedAt).toLocaleString()}`, 105, 30, { align: 'center' });
-  
-  // Add application details
-  autoTable(doc, {
-    startY: 40,
-    head: [['Field', 'Value']],
-    body: [
-      ['Application ID', application.id],
-      ['Name', application.name],
-      ['Phone Number', application.phoneNumber],
-      ['Address', application.address],
-      ['Date of Birth', new Date(application.dateOfBirth).toLocaleDateString()],
-      ['Gender', application.gender],
-      ['Loan Category', application.loanCategory],
-    ],
-    theme: 'grid',
-    headStyles: { fillColor: [41, 128, 185] },
-    styles: { fontSize: 11 }
+  doc.setTextColor(40);
+  doc.text(`Ref: ${letter.reference}`, MARGIN_X, y);
+  doc.text(`Date: ${letter.date}`, width - MARGIN_X, y, { align: 'right' });
+  y += lineHeight * 2;
+
+  doc.text('To,', MARGIN_X, y);
+  y += lineHeight;
+  letter.recipient.forEach((line) => {
+    const lines = doc.splitTextToSize(toPdfText(line), textWidth / 2) as string[];
+    doc.text(lines, MARGIN_X, y);
+    y += lines.length * lineHeight;
   });
-  
-  // Save the PDF
-  doc.save(`loan-application-${application.id}.pdf`);
+  y += lineHeight;
+
+  doc.setFont('helvetica', 'bold');
+  const subject = doc.splitTextToSize(toPdfText(`Subject: ${letter.subject}`), textWidth) as string[];
+  doc.text(subject, MARGIN_X, y);
+  y += subject.length * lineHeight + lineHeight;
+
+  doc.setFont('helvetica', 'normal');
+  letter.body.split('\n').forEach((paragraph) => {
+    if (!paragraph.trim()) {
+      y += lineHeight / 2;
+      return;
+    }
+    (doc.splitTextToSize(toPdfText(paragraph), textWidth) as string[]).forEach((line) => {
+      ensureSpace(lineHeight);
+      doc.text(line, MARGIN_X, y);
+      y += lineHeight;
+    });
+  });
+
+  ensureSpace(30);
+  y += lineHeight * 2;
+  doc.text(`For ${COMPANY_NAME}`, MARGIN_X, y);
+  y += 18;
+  doc.setDrawColor(120);
+  doc.setLineWidth(0.2);
+  doc.line(MARGIN_X, y, MARGIN_X + 60, y);
+  doc.text('Authorised Signatory', MARGIN_X, y + 5);
+
+  drawPageChrome(doc, Array(doc.getNumberOfPages()).fill(LETTER_KIND_LABELS[letter.kind]), logo, options);
+  return doc.output('blob');
 };
@@ -0,0 +1,170 @@
+// src/lib/pin-directory.ts
+//
+// A compact PIN code directory bundled with the app. The first two digits of a
+// PIN identify the postal circle (state), and the first three the sorting
+// district; major cities are listed by their three-digit prefix. Lookups are
+// used to pre-fill the address, so the applicant can always correct them.
+
+export interface PinLocation {
+  city?: string;
+  state: string;
+}
+
+// Three-digit prefixes that differ from their circle, or that map to a city
+const DISTRICTS: Record<string, PinLocation> = {
+  "110": { city: "New Delhi", state: "Delhi" },
+  "121": { city: "Faridabad", state: "Haryana" },
+  "122": { city: "Gurugram", state: "Haryana" },
+  "141": { city: "Ludhiana", state: "Punjab" },
+  "143": { city: "Amritsar", state: "Punjab" },
+  "160": { city: "Chandigarh", state: "Chandigarh" },
+  "194": { city: "Leh", state: "Ladakh" },
+  "201": { city: "Ghaziabad", state: "Uttar Pradesh" },
+  "208": { city: "Kanpur", state: "Uttar Pradesh" },
+  "221": { city: "Varanasi", state: "Uttar Pradesh" },
+  "226": { city: "Lucknow", state: "Uttar Pradesh" },
+  "244": { state: "Uttarakhand" },
+  "246": { state: "Uttarakhand" },
+  "247": { state: "Uttarakhand" },
+  "248": { city: "Dehradun", state: "Uttarakhand" },
+  "249": { state: "Uttarakhand" },
+  "262": { state: "Uttarakhand" },
+  "263": { state: "Uttarakhand" },
+  "282": { city: "Agra", state: "Uttar Pradesh" },
+  "302": { city: "Jaipur", state: "Rajasthan" },
+  "380": { city: "Ahmedabad", state: "Gujarat" },
+  "390": { city: "Vadodara", state: "Gujarat" },
+  "395": { city: "Surat", state: "Gujarat" },
+  "396": { state: "Gujarat" },
+  "400": { city: "Mumbai", state: "Maharashtra" },
+  "403": { state: "Goa" },
+  "411": { city: "Pune", state: "Maharashtra" },
+  "440": { city: "Nagpur", state: "Maharashtra" },
+  "452": { city: "Indore", state: "Madhya Pradesh" },
+  "462": { city: "Bhopal", state: "Madhya Pradesh" },
+  "492": { city: "Raipur", state: "Chhattisgarh" },
+  "500": { city: "Hyderabad", state: "Telangana" },
+  "520": { city: "Vijayawada", state: "Andhra Pradesh" },
+  "530": { city: "Visakhapatnam", state: "Andhra Pradesh" },
+  "560": { city: "Bengaluru", state: "Karnataka" },
+  "570": { city: "Mysuru", state: "Karnataka" },
+  "575": { city: "Mangaluru", state: "Karnataka" },
+  "600": { city: "Chennai", state: "Tamil Nadu" },
+  "605": { city: "Puducherry", state: "Puducherry" },
+  "625": { city: "Madurai", state: "Tamil Nadu" },
+  "641": { city: "Coimbatore", state: "Tamil Nadu" },
+  "682": { city: "Kochi", state: "Kerala" },
+  "695": { city: "Thiruvananthapuram", state: "Kerala" },
+  "700": { city: "Kolkata", state: "West Bengal" },
+  "737": { city: "Gangtok", state: "Sikkim" },
+  "744": { city: "Port Blair", state: "Andaman and Nicobar Islands" },
+  "751": { city: "Bhubaneswar", state: "Odisha" },
+  "781": { city: "Guwahati", state: "Assam" },
+  "790": { state: "Arunachal Pradesh" },
+  "791": { state: "Arunachal Pradesh" },
+  "792": { state: "Arunachal Pradesh" },
+  "793": { city: "Shillong", state: "Meghalaya" },
+  "794": { state: "Meghalaya" },
+  "795": { city: "Imphal", state: "Manipur" },
+  "796": { city: "Aizawl", state: "Mizoram" },
+  "797": { state: "Nagaland" },
+  "798": { state: "Nagaland" },
+  "799": { city: "Agartala", state: "Tripura" },
+  "800": { city: "Patna", state: "Bihar" },
+  "814": { state: "Jharkhand" },
+  "815": { state: "Jharkhand" },
+  "816": { state: "Jharkhand" },
+  "822": { state: "Jharkhand" },
+  "825": { state: "Jharkhand" },
+  "826": { city: "Dhanbad", state: "Jharkhand" },
+  "827": { city: "Bokaro", state: "Jharkhand" },
+  "828": { state: "Jharkhand" },
+  "829": { state: "Jharkhand" },
+  "831": { city: "Jamshedpur", state: "Jharkhand" },
+  "832": { state: "Jharkhand" },
+  "833": { state: "Jharkhand" },
+  "834": { city: "Ranchi", state: "Jharkhand" },
+  "835": { state: "Jharkhand" },
+};
+
+// Two-digit postal circles
+const CIRCLES: Record<string, string> = {
+  "11": "Delhi",
+  "12": "Haryana",
+  "13": "Haryana",
+  "14": "Punjab",
+  "15": "Punjab",
+  "16": "Punjab",
+  "17": "Himachal Pradesh",
+  "18": "Jammu and Kashmir",
+  "19": "Jammu and Kashmir",
+  "20": "Uttar Pradesh",
+  "21": "Uttar Pradesh",
+  "22": "Uttar Pradesh",
+  "23": "Uttar Pradesh",
+  "24": "Uttar Pradesh",
+  "25": "Uttar Pradesh",
+  "26": "Uttar Pradesh",
+  "27": "Uttar Pradesh",
+  "28": "Uttar Pradesh",
+  "30": "Rajasthan",
+  "31": "Rajasthan",
+  "32": "Rajasthan",
+  "33": "Rajasthan",
+  "34": "Rajasthan",
+  "36": "Gujarat",
+  "37": "Gujarat",
+  "38": "Gujarat",
+  "39": "Gujarat",
+  "40": "Maharashtra",
+  "41": "Maharashtra",
+  "42": "Maharashtra",
+  "43": "Maharashtra",
+  "44": "Maharashtra",
+  "45": "Madhya Pradesh",
+  "46": "Madhya Pradesh",
+  "47": "Madhya Pradesh",
+  "48": "Madhya Pradesh",
+  "49": "Chhattisgarh",
+  "50": "Telangana",
+  "51": "Andhra Pradesh",
+  "52": "Andhra Pradesh",
+  "53": "Andhra Pradesh",
+  "56": "Karnataka",
+  "57": "Karnataka",
+  "58": "Karnataka",
+  "59": "Karnataka",
+  "60": "Tamil Nadu",
+  "61": "Tamil Nadu",
+  "62": "Tamil Nadu",
+  "63": "Tamil Nadu",
+  "64": "Tamil Nadu",
+  "67": "Kerala",
+  "68": "Kerala",
+  "69": "Kerala",
+  "70": "West Bengal",
+  "71": "West Bengal",
+  "72": "West Bengal",
+  "73": "West Bengal",
+  "74": "West Bengal",
+  "75": "Odisha",
+  "76": "Odisha",
+  "77": "Odisha",
+  "78": "Assam",
+  "79": "Assam",
+  "80": "Bihar",
+  "81": "Bihar",
+  "82": "Bihar",
+  "83": "Bihar",
+  "84": "Bihar",
+  "85": "Bihar",
+};
+
+/** City and state for a six-digit PIN code, or null when the prefix isn't known. */
+export function lookupPinCode(pin: string): PinLocation | null {
+  if (!/^\d{6}$/.test(pin)) return null;
+  const district = DISTRICTS[pin.slice(0, 3)];
+  if (district) return district;
+  const state = CIRCLES[pin.slice(0, 2)];
+  return state ? { state } : null;
+}
@@ -0,0 +1,51 @@
+// src/lib/referrals.ts
+import type { Application } from "@/lib/api";
+
+export const MAX_REFERRALS = 3;
+
+export const REFERRAL_RELATIONSHIPS = [
+  { value: "friend", label: "Friend" },
+  { value: "relative", label: "Relative" },
+  { value: "colleague", label: "Colleague" },
+  { value: "neighbour", label: "Neighbour" },
+  { value: "customer", label: "Existing customer" },
+  { value: "other", label: "Other" },
+] as const;
+
+export interface Referral {
+  name: string;
+  phone: string;
+  relationship: string;
+}
+
+export function getRelationshipLabel(value: string): string {
+  return REFERRAL_RELATIONSHIPS.find((r) => r.value === value)?.label ?? value;
+}
+
+type ReferralSource = Pick<
+  Application,
+  "referrals" | "referralName" | "referralPhone" | "referralName1" | "referralPhone1" | "referralName2" | "referralPhone2"
+>;
+
+/**
+ * Referrers of an application. Older applications stored a single referrer as
+ * referralName/referralPhone, or numbered pairs; those are read as a list too.
+ */
+export function getReferrals(app: ReferralSource): Referral[] {
+  if (app.referrals?.length) return app.referrals;
+
+  return [
+    [app.referralName, app.referralPhone],
+    [app.referralName1, app.referralPhone1],
+    [app.referralName2, app.referralPhone2],
+  ]
+    .filter(([name, phone]) => name || phone)
+    .map(([name, phone]) => ({ name: name ?? "", phone: phone ?? "", relationship: "" }));
+}
+
+/** "Name (phone), Relationship" for tables, dialogs and exports. */
+export function formatReferral(referral: Partial<Referral>): string {
+  const name = referral.name ?? "";
+  const contact = referral.phone ? `${name} (${referral.phone})` : name;
+  return referral.relationship ? `${contact}, ${getRelationshipLabel(referral.relationship)}` : contact;
+}
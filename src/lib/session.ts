@@ -0,0 +1,50 @@
+// src/lib/session.ts
+import { getTokenExpiry } from "@/lib/jwt";
+
+const SESSION_KEYS = {
+  TOKEN: "admin_token",
+  USERNAME: "admin_username",
+  REFRESH_TOKEN: "admin_refresh_token",
+};
+
+export const session = {
+  getToken(): string | null {
+    return sessionStorage.getItem(SESSION_KEYS.TOKEN);
+  },
+
+  getUsername(): string | null {
+    return sessionStorage.getItem(SESSION_KEYS.USERNAME);
+  },
+
+  getRefreshToken(): string | null {
+    return sessionStorage.getItem(SESSION_KEYS.REFRESH_TOKEN);
+  },
+
+  getExpiry(): number | null {
+    const token = this.getToken();
+    return token ? getTokenExpiry(token) : null;
+  },
+
+  isAuthenticated(): boolean {
+    if (!this.getToken()) return false;
+    const expiry = this.getExpiry();
+    return expiry === null || expiry > Date.now();
+  },
+
+  save(token: string, username: string, refreshToken?: string): void {
+    sessionStorage.setItem(SESSION_KEYS.TOKEN, token);
+    sessionStorage.setItem(SESSION_KEYS.USERNAME, username);
+    if (refreshToken) sessionStorage.setItem(SESSION_KEYS.REFRESH_TOKEN, refreshToken);
+  },
+
+  updateTokens(token: string, refreshToken?: string): void {
+    sessionStorage.setItem(SESSION_KEYS.TOKEN, token);
+    if (refreshToken) sessionStorage.setItem(SESSION_KEYS.REFRESH_TOKEN, refreshToken);
+  },
+
+  clear(): void {
+    sessionStorage.removeItem(SESSION_KEYS.TOKEN);
+    sessionStorage.removeItem(SESSION_KEYS.USERNAME);
+    sessionStorage.removeItem(SESSION_KEYS.REFRESH_TOKEN);
+  },
+};
@@ -0,0 +1,56 @@
+// src/lib/status.ts
+export type ApplicationStatus = "new" | "under_review" | "approved" | "rejected" | "disbursed";
+
+export interface StatusHistoryEntry {
+  from: ApplicationStatus | null;
+  to: ApplicationStatus;
+  reason?: string;
+  changedBy?: string;
+  changedAt: string;
+}
+
+export const APPLICATION_STATUSES: ApplicationStatus[] = [
+  "new",
+  "under_review",
+  "approved",
+  "rejected",
+  "disbursed",
+];
+
+export const STATUS_LABELS: Record<ApplicationStatus, string> = {
+  new: "New",
+  under_review: "Under Review",
+  approved: "Approved",
+  rejected: "Rejected",
+  disbursed: "Disbursed",
+};
+
+export const STATUS_BADGE_CLASSES: Record<ApplicationStatus, string> = {
+  new: "bg-blue-100 text-blue-800 border-blue-200",
+  under_review: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  approved: "bg-green-100 text-green-800 border-green-200",
+  rejected: "bg-red-100 text-red-800 border-red-200",
+  disbursed: "bg-purple-100 text-purple-800 border-purple-200",
+};
+
+// Rejected applications can be reopened for another review
+export const STATUS_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+  new: ["under_review"],
+  under_review: ["approved", "rejected"],
+  approved: ["disbursed"],
+  rejected: ["under_review"],
+  disbursed: [],
+};
+
+/** Applications created before the workflow existed have no status and count as new. */
+export function getStatus(application: { status?: ApplicationStatus }): ApplicationStatus {
+  return application.status ?? "new";
+}
+
+export function canTransition(from: ApplicationStatus, to: ApplicationStatus): boolean {
+  return STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function requiresReason(to: ApplicationStatus): boolean {
+  return to === "rejected";
+}
@@ -1,65 +1,538 @@
-export interface LoanApplication {
-  id: string;
-  name: string;
-  phoneNumber: string;
-  address: string;
-  dateOfBirth: string;
-  gender: string;
-  loanCategory: string;
-  submittedAt: string;
-}
+import { format } from 'date-fns';
+import { DRAFT_EXPIRY_DAYS } from '@/config';
+import { ApiError } from './api-error';
+import type {
+  Application,
+  ApplicationListResponse,
+  ApplicationQuery,
+  DataSource,
+  StorageStatus,
+} from './api';
+import type { ActivityEntry, ApplicationNote } from './activity';
+import type { ApplicationDocument } from './documents';
+import type { ApplicationLetter, LetterTemplate } from './letters';
+import { decodeJwt } from './jwt';
+import { objectStore, openDatabase, type ObjectStore } from './idb';
+import { session } from './session';
+import { buildDuplicateIndex, matchApplications } from './duplicates';
+import { getReferrals } from './referrals';
+import { STATUS_LABELS, canTransition, getStatus, requiresReason, type ApplicationStatus } from './status';
 
-export interface AdminCredentials {
-  email: string;
-  password: string;
+export interface ApplicationDraft<T = Record<string, unknown>> {
+  values: T;
+  step: number;
+  savedAt: string;
 }
 
 const STORAGE_KEYS = {
-  APPLICATIONS: 'loan_applications',
-  ADMIN: 'admin_credentials'
+  DRAFT: 'loan_application_draft'
 };
 
-// Default admin credentials
-const DEFAULT_ADMIN: AdminCredentials = {
-  email: 'admin@loanapp.com',
-  password: 'admin123'
-};
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export const storage = {
-  // Loan Applications
-  getApplications(): LoanApplication[] {
-    const data = localStorage.getItem(STORAGE_KEYS.APPLICATIONS);
-    return data ? JSON.parse(data) : [];
-  },
+  // Application Drafts (expired drafts are purged on read)
+  getDraft<T>(): ApplicationDraft<T> | null {
+    const data = localStorage.getItem(STORAGE_KEYS.DRAFT);
+    if (!data) return null;
 
-  saveApplication(application: Omit<LoanApplication, 'id' | 'submittedAt'>): LoanApplication {
-    const applications = this.getApplications();
-    const newApplication: LoanApplication = {
-      ...application,
-      id: Date.now().toString(),
-      submittedAt: new Date().toISOString()
-    };
-    applications.push(newApplication);
-    localStorage.setItem(STORAGE_KEYS.APPLICATIONS, JSON.stringify(applications));
-    return newApplication;
+    try {
+      const draft: ApplicationDraft<T> = JSON.parse(data);
+      const age = Date.now() - new Date(draft.savedAt).getTime();
+      if (!(age < DRAFT_EXPIRY_DAYS * DAY_MS)) {
+        this.clearDraft();
+        return null;
+      }
+      return draft;
+    } catch {
+      this.clearDraft();
+      return null;
+    }
   },
 
-  getApplicationById(id: string): LoanApplication | undefined {
-    return this.getApplications().find(app => app.id === id);
+  saveDraft<T>(values: T, step: number): ApplicationDraft<T> {
+    const draft: ApplicationDraft<T> = { values, step, savedAt: new Date().toISOString() };
+    localStorage.setItem(STORAGE_KEYS.DRAFT, JSON.stringify(draft));
+    return draft;
   },
 
-  // Admin Credentials
-  getAdminCredentials(): AdminCredentials {
-    const data = localStorage.getItem(STORAGE_KEYS.ADMIN);
-    return data ? JSON.parse(data) : DEFAULT_ADMIN;
-  },
+  clearDraft(): void {
+    localStorage.removeItem(STORAGE_KEYS.DRAFT);
+  }
+};
 
-  updateAdminCredentials(credentials: AdminCredentials): void {
-    localStorage.setItem(STORAGE_KEYS.ADMIN, JSON.stringify(credentials));
-  },
+// ---------- Offline data source (IndexedDB) ----------
+
+const DB_NAME = 'sai_loan_applications';
+const DB_VERSION = 1;
+
+// Signing in offline works with these until the password is changed in Settings
+const DEFAULT_ADMIN = { username: 'admin', password: 'admin123' };
+
+const SESSION_MS = 8 * 60 * 60 * 1000;
+const REFRESH_MS = 7 * DAY_MS;
+
+interface StoredAdmin {
+  username: string;
+  passwordHash: string;
+}
 
-  verifyAdmin(email: string, password: string): boolean {
-    const admin = this.getAdminCredentials();
-    return admin.email === email && admin.password === password;
+interface StoredDocument extends ApplicationDocument {
+  /** Null until the application the document was uploaded for is submitted. */
+  applicationId: string | null;
+  file: Blob;
+}
+
+interface StoredLetter extends ApplicationLetter {
+  applicationId: string;
+  file: Blob;
+}
+
+type StoredNote = ApplicationNote & { applicationId: string };
+type StoredActivity = ActivityEntry & { _id: string; applicationId: string };
+
+function upgrade(db: IDBDatabase, oldVersion: number) {
+  if (oldVersion < 1) {
+    db.createObjectStore('applications', { keyPath: '_id' });
+    db.createObjectStore('admins', { keyPath: 'username' });
+    db.createObjectStore('letterTemplates', { keyPath: 'kind' });
+    db.createObjectStore('documents', { keyPath: 'id' }).createIndex('applicationId', 'applicationId');
+    db.createObjectStore('notes', { keyPath: '_id' }).createIndex('applicationId', 'applicationId');
+    db.createObjectStore('activity', { keyPath: '_id' }).createIndex('applicationId', 'applicationId');
+    db.createObjectStore('letters', { keyPath: '_id' }).createIndex('applicationId', 'applicationId');
   }
-};
+}
+
+const newId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+
+const now = () => new Date().toISOString();
+
+async function hashPassword(password: string): Promise<string> {
+  if (!crypto?.subtle) throw new ApiError('Offline sign-in needs a secure (https or localhost) page', 0);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+const base64Url = (value: object) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(JSON.stringify(value))))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+/** An unsigned JWT, so the session code can read its expiry like a backend token's. */
+function issueToken(username: string, use: 'access' | 'refresh', lifetimeMs: number): string {
+  const iat = Math.floor(Date.now() / 1000);
+  const payload = { sub: username, use, iat, exp: iat + Math.floor(lifetimeMs / 1000) };
+  return `${base64Url({ alg: 'none', typ: 'JWT' })}.${base64Url(payload)}.`;
+}
+
+const notFound = (what: string) => new ApiError(`${what} not found`, 404);
+
+const withoutFile = <T extends { file: Blob }>({ file: _, ...rest }: T) => rest;
+
+const byCreatedAt = (a: { createdAt: string }, b: { createdAt: string }) => a.createdAt.localeCompare(b.createdAt);
+
+// ---------- Querying ----------
+
+function matchesQuery(app: Application, query: Partial<ApplicationQuery>, withStatus = true): boolean {
+  const q = query.q?.trim().toLowerCase();
+  if (q) {
+    const haystack = [app._id, app.name, app.phoneNumber, app.primaryContactNumber, app.panNumber, app.city];
+    if (!haystack.some((value) => value?.toLowerCase().includes(q))) return false;
+  }
+  if (query.category && app.loanCategory !== query.category) return false;
+  if (withStatus && query.status && getStatus(app) !== query.status) return false;
+
+  if (query.from || query.to) {
+    const submitted = new Date(app.submittedAt);
+    if (Number.isNaN(submitted.getTime())) return false;
+    const day = format(submitted, 'yyyy-MM-dd');
+    if (query.from && day < query.from) return false;
+    if (query.to && day > query.to) return false;
+  }
+  return true;
+}
+
+/** Value of a sort field such as `name` or `referrals.name`; arrays sort by their first item. */
+function sortValue(app: Application, field: string): unknown {
+  if (field === 'status') return getStatus(app);
+  if (field === 'referrals.name') return getReferrals(app)[0]?.name;
+
+  return field.split('.').reduce<unknown>((value, key) => {
+    const current = Array.isArray(value) ? value[0] : value;
+    return current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined;
+  }, app);
+}
+
+function compareBy(field: string, order: 'asc' | 'desc') {
+  const direction = order === 'asc' ? 1 : -1;
+  return (a: Application, b: Application) => {
+    const x = sortValue(a, field);
+    const y = sortValue(b, field);
+    // Missing values go last whichever way the list is sorted
+    if (x === undefined || x === null || x === '') return y === undefined || y === null || y === '' ? 0 : 1;
+    if (y === undefined || y === null || y === '') return -1;
+    if (typeof x === 'number' && typeof y === 'number') return (x - y) * direction;
+    return String(x).localeCompare(String(y), undefined, { numeric: true, sensitivity: 'base' }) * direction;
+  };
+}
+
+// ---------- Data source ----------
+
+export interface IndexedDbDataSourceOptions {
+  /** Called when an admin call is made without a valid session. */
+  onUnauthorized: () => void;
+}
+
+/**
+ * Keeps applications, documents and the admin account in this browser, so the
+ * app runs with no backend. Mirrors the backend's rules (status transitions,
+ * sessions, duplicate checks); data never leaves the device.
+ */
+export function createIndexedDbDataSource({ onUnauthorized }: IndexedDbDataSourceOptions): DataSource {
+  let connection: Promise<IDBDatabase> | null = null;
+  const db = () => {
+    if (!connection) {
+      // Ask the browser not to evict the data when space runs low
+      navigator.storage?.persist?.().catch(() => undefined);
+      connection = openDatabase(DB_NAME, DB_VERSION, upgrade).catch((err) => {
+        connection = null;
+        throw new ApiError(err instanceof Error ? err.message : 'Unable to open local storage', 0, err);
+      });
+    }
+    return connection;
+  };
+
+  const applications = objectStore<Application>(db, 'applications');
+  const admins = objectStore<StoredAdmin>(db, 'admins');
+  const documents = objectStore<StoredDocument>(db, 'documents');
+  const notes = objectStore<StoredNote>(db, 'notes');
+  const activity = objectStore<StoredActivity>(db, 'activity');
+  const letters = objectStore<StoredLetter>(db, 'letters');
+  const letterTemplates = objectStore<LetterTemplate>(db, 'letterTemplates');
+
+  /** The signed-in admin's username; rejects like an expired backend session otherwise. */
+  const requireAdmin = (): string => {
+    const username = session.getUsername();
+    if (!session.isAuthenticated() || !username) {
+      onUnauthorized();
+      throw new ApiError('Your session has expired. Please log in again.', 401);
+    }
+    return username;
+  };
+
+  const findApplication = async (id: string) => {
+    const app = await applications.get(id);
+    if (!app) throw notFound('Application');
+    return app;
+  };
+
+  const saveApplication = async (app: Application) => {
+    await applications.put(app);
+    return app;
+  };
+
+  // Archived (merged) duplicates drop out of every list, as on the backend
+  const activeApplications = async () => (await applications.getAll()).filter((app) => !app.mergedInto);
+
+  const findAdmin = async (username: string): Promise<StoredAdmin | null> => {
+    const admin = await admins.get(username);
+    if (admin) return admin;
+    if (username !== DEFAULT_ADMIN.username || (await admins.count()) > 0) return null;
+    return { username, passwordHash: await hashPassword(DEFAULT_ADMIN.password) };
+  };
+
+  const filteredApplications = async (query: Partial<ApplicationQuery>) => {
+    const { sort = 'submittedAt', order = 'desc' } = query;
+    return (await activeApplications())
+      .filter((app) => matchesQuery(app, query))
+      .sort(compareBy(sort, order));
+  };
+
+  return {
+    // Public applicant form
+    async submitApplication(values, { idempotencyKey } = {}) {
+      // The key doubles as the id, so a resent submission finds the first one
+      if (idempotencyKey && (await applications.get(idempotencyKey))) {
+        return { message: 'Application submitted successfully' };
+      }
+
+      const { phoneVerificationToken, ...input } = values;
+      const app: Application = {
+        ...input,
+        _id: idempotencyKey ?? newId(),
+        status: 'new',
+        // The stub OTP provider is the only one offline; its token is proof enough
+        phoneVerified: !!phoneVerificationToken,
+        submittedAt: now(),
+      };
+      await applications.put(app);
+
+      for (const doc of app.documents ?? []) {
+        const stored = await documents.get(doc.id);
+        if (stored) await documents.put({ ...stored, applicationId: app._id });
+      }
+      return { message: 'Application submitted successfully' };
+    },
+
+    async checkDuplicate(values) {
+      const { phoneVerificationToken: _, ...details } = values;
+      const candidate = { _id: '', ...details } as Application;
+      return { duplicate: (await activeApplications()).some((app) => matchApplications(candidate, app)) };
+    },
+
+    async uploadDocument(file, kind, { onProgress, signal } = {}) {
+      if (signal?.aborted) throw new DOMException('Upload cancelled', 'AbortError');
+
+      const doc: ApplicationDocument = {
+        id: newId(),
+        kind,
+        fileName: file.name,
+        contentType: file.type,
+        size: file.size,
+        uploadedAt: now(),
+      };
+      await documents.put({ ...doc, applicationId: null, file });
+      onProgress?.(100);
+      return doc;
+    },
+
+    async sendOtp() {
+      throw new ApiError('Phone verification uses the stub provider when offline', 501);
+    },
+
+    async verifyOtp() {
+      throw new ApiError('Phone verification uses the stub provider when offline', 501);
+    },
+
+    // Admin auth
+    async login({ username, password }) {
+      const admin = await findAdmin(username);
+      if (!admin || admin.passwordHash !== (await hashPassword(password))) {
+        throw new ApiError('Invalid credentials', 401);
+      }
+      return {
+        token: issueToken(username, 'access', SESSION_MS),
+        username,
+        refreshToken: issueToken(username, 'refresh', REFRESH_MS),
+      };
+    },
+
+    async refreshSession(refreshToken) {
+      const payload = refreshToken ? decodeJwt(refreshToken) : null;
+      const username = typeof payload?.sub === 'string' ? payload.sub : null;
+      if (!username || payload.use !== 'refresh' || !payload.exp || payload.exp * 1000 < Date.now()) {
+        throw new ApiError('Unable to extend your session', 401);
+      }
+      return {
+        token: issueToken(username, 'access', SESSION_MS),
+        refreshToken: issueToken(username, 'refresh', REFRESH_MS),
+      };
+    },
+
+    async updateAdmin({ username, currentPassword, newPassword }) {
+      requireAdmin();
+      const admin = await findAdmin(username);
+      if (!admin || admin.passwordHash !== (await hashPassword(currentPassword))) {
+        throw new ApiError('Current password is incorrect', 400);
+      }
+      await admins.put({ username, passwordHash: await hashPassword(newPassword) });
+      return { message: 'Password updated' };
+    },
+
+    // Applications
+    async getApplications(query = {}) {
+      requireAdmin();
+      const { page = 1, pageSize = 20 } = query;
+      const matching = await filteredApplications(query);
+
+      const statusCounts: Partial<Record<ApplicationStatus, number>> = {};
+      (await activeApplications())
+        .filter((app) => matchesQuery(app, query, false))
+        .forEach((app) => {
+          const status = getStatus(app);
+          statusCounts[status] = (statusCounts[status] ?? 0) + 1;
+        });
+
+      const response: ApplicationListResponse = {
+        items: matching.slice((page - 1) * pageSize, page * pageSize),
+        total: matching.length,
+        page,
+        pageSize,
+        statusCounts,
+      };
+      return response;
+    },
+
+    async getAllApplications(query = {}) {
+      requireAdmin();
+      return filteredApplications(query);
+    },
+
+    async deleteApplication(id) {
+      requireAdmin();
+      await findApplication(id);
+      await applications.delete(id);
+
+      for (const doc of await documents.getAllBy('applicationId', id)) await documents.delete(doc.id);
+      for (const store of [notes, activity, letters] as ObjectStore<{ _id: string }>[]) {
+        for (const record of await store.getAllBy('applicationId', id)) await store.delete(record._id);
+      }
+      return { message: 'Application deleted' };
+    },
+
+    async updateApplication(id, values) {
+      requireAdmin();
+      return saveApplication({ ...(await findApplication(id)), ...values });
+    },
+
+    async mergeApplications(id, duplicateId) {
+      requireAdmin();
+      const keep = await findApplication(id);
+      const duplicate = await findApplication(duplicateId);
+
+      const documentIds = new Set((keep.documents ?? []).map((doc) => doc.id));
+      await saveApplication({ ...duplicate, mergedInto: id });
+      return saveApplication({
+        ...keep,
+        documents: [...(keep.documents ?? []), ...(duplicate.documents ?? []).filter((doc) => !documentIds.has(doc.id))],
+      });
+    },
+
+    async getApplicationDuplicates(ids) {
+      requireAdmin();
+      const active = await activeApplications();
+      const index = buildDuplicateIndex(active);
+      const wanted = new Set(ids);
+      return Object.fromEntries(active.filter((app) => wanted.has(app._id)).map((app) => [app._id, index(app)]));
+    },
+
+    async updateApplicationStatus(id, { status, reason }) {
+      const username = requireAdmin();
+      const app = await findApplication(id);
+      const from = getStatus(app);
+
+      if (!canTransition(from, status)) {
+        throw new ApiError(`Cannot move from ${STATUS_LABELS[from]} to ${STATUS_LABELS[status]}`, 409);
+      }
+      if (requiresReason(status) && !reason?.trim()) {
+        throw new ApiError('A reason is required for this status', 400);
+      }
+
+      return saveApplication({
+        ...app,
+        status,
+        statusHistory: [
+          ...(app.statusHistory ?? []),
+          { from, to: status, reason: reason?.trim() || undefined, changedBy: username, changedAt: now() },
+        ],
+      });
+    },
+
+    async assignApplication(id, assignee) {
+      requireAdmin();
+      return saveApplication({ ...(await findApplication(id)), assignedTo: assignee });
+    },
+
+    async getApplicationNotes(id) {
+      requireAdmin();
+      return (await notes.getAllBy('applicationId', id)).sort(byCreatedAt);
+    },
+
+    async addApplicationNote(id, text) {
+      const author = requireAdmin();
+      await findApplication(id);
+      const note: StoredNote = { _id: newId(), applicationId: id, author, text, createdAt: now() };
+      await notes.put(note);
+      return note;
+    },
+
+    async getApplicationActivity(id) {
+      requireAdmin();
+      return (await activity.getAllBy('applicationId', id)).sort(byCreatedAt).reverse();
+    },
+
+    async logApplicationActivity(id, { type, details }) {
+      const actor = requireAdmin();
+      const entry: StoredActivity = { _id: newId(), applicationId: id, type, details, actor, createdAt: now() };
+      await activity.put(entry);
+      return entry;
+    },
+
+    async getApplicationPdf(id) {
+      const generatedBy = requireAdmin();
+      const app = await findApplication(id);
+      const { generateApplicationPDF } = await import('./pdf');
+      return generateApplicationPDF(app, { generatedBy });
+    },
+
+    async getApplicationDocument(id, documentId) {
+      requireAdmin();
+      const app = await findApplication(id);
+      const doc = app.documents?.some((d) => d.id === documentId) ? await documents.get(documentId) : undefined;
+      if (!doc) throw notFound('Document');
+      return doc.file;
+    },
+
+    async getApplicationLetters(id) {
+      requireAdmin();
+      return (await letters.getAllBy('applicationId', id)).map(withoutFile);
+    },
+
+    async saveApplicationLetter(id, pdf, { kind, subject, fileName }) {
+      const createdBy = requireAdmin();
+      await findApplication(id);
+      const letter: StoredLetter = {
+        _id: newId(),
+        applicationId: id,
+        kind,
+        subject,
+        fileName,
+        createdBy,
+        createdAt: now(),
+        file: pdf,
+      };
+      await letters.put(letter);
+      return withoutFile(letter);
+    },
+
+    async getApplicationLetter(id, letterId) {
+      requireAdmin();
+      const letter = await letters.get(letterId);
+      if (!letter || letter.applicationId !== id) throw notFound('Letter');
+      return letter.file;
+    },
+
+    async getLetterTemplates() {
+      requireAdmin();
+      return letterTemplates.getAll();
+    },
+
+    async updateLetterTemplate(kind, values) {
+      requireAdmin();
+      const template: LetterTemplate = { kind, subject: values.subject, body: values.body };
+      await letterTemplates.put(template);
+      return template;
+    },
+
+    // Usage is measured against what the browser allows this site to store
+    async getStorageStatus() {
+      requireAdmin();
+      const records = await applications.count();
+      const { usage = 0, quota = 0 } = (await navigator.storage?.estimate?.()) ?? {};
+      const percentage = quota ? Math.min(100, Math.round((usage / quota) * 100)) : 0;
+
+      const status: StorageStatus = {
+        status: percentage >= 90 ? 'critical' : percentage >= 75 ? 'warning' : 'ok',
+        percentage,
+        usedDocuments: records,
+        // Roughly how many applications fit, at the current average size
+        maxDocuments: usage && records ? Math.floor((records * quota) / usage) : records,
+      };
+      return status;
+    }
+  };
+}
@@ -0,0 +1,232 @@
+// src/lib/submission-queue.ts
+import { DRAFT_EXPIRY_DAYS } from "@/config";
+import { api, ApiError, type ApplicationInput } from "@/lib/api";
+import type { ApplicationFormValues } from "@/lib/application-schema";
+import { objectStore, openDatabase } from "@/lib/idb";
+
+const DB_NAME = "sai_submission_queue";
+const DB_VERSION = 1;
+
+// Retries back off from 15 seconds, doubling up to half an hour
+const BASE_RETRY_MS = 15 * 1000;
+const MAX_RETRY_MS = 30 * 60 * 1000;
+// setTimeout overflows above ~24.8 days
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+// Queued applications hold the full form, so they expire like drafts do
+const EXPIRY_MS = DRAFT_EXPIRY_DAYS * 24 * 60 * 60 * 1000;
+
+/** An application kept on this device until the backend has accepted it. */
+export interface QueuedSubmission {
+  /** Idempotency key sent with every attempt, so a retry never creates a second application. */
+  id: string;
+  payload: ApplicationInput;
+  /** The form as filled in, so a rejected application can be reopened and corrected. */
+  values: ApplicationFormValues;
+  queuedAt: string;
+  attempts: number;
+  /** Epoch milliseconds of the next automatic attempt. */
+  nextAttemptAt: number;
+  lastError?: string;
+  /** The backend rejected the application; it is kept for review but no longer retried. */
+  rejected?: boolean;
+}
+
+export type SubmissionQueueEvent =
+  | { type: "changed" }
+  | { type: "uploaded"; submission: QueuedSubmission }
+  | { type: "rejected"; submission: QueuedSubmission };
+
+export interface SubmitResult {
+  /** True when the application could not be sent now and waits on this device. */
+  queued: boolean;
+}
+
+let connection: Promise<IDBDatabase> | null = null;
+const db = () => {
+  if (!connection) {
+    connection = openDatabase(DB_NAME, DB_VERSION, (database, oldVersion) => {
+      if (oldVersion < 1) database.createObjectStore("submissions", { keyPath: "id" });
+    }).catch((err) => {
+      connection = null;
+      throw err;
+    });
+  }
+  return connection;
+};
+
+const submissions = objectStore<QueuedSubmission>(db, "submissions");
+
+const listeners = new Set<(event: SubmissionQueueEvent) => void>();
+const emit = (event: SubmissionQueueEvent) => listeners.forEach((listener) => listener(event));
+
+let syncing: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+export const createIdempotencyKey = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+
+/** Delay before the next attempt, with jitter so a fleet of devices doesn't retry in lockstep. */
+export function getRetryDelay(attempts: number): number {
+  const delay = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1));
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * Lost connections, timeouts, rate limits and server errors are worth retrying;
+ * validation errors and anything that isn't an API error (a bug, not an outage) are not.
+ */
+export function isRetryable(err: unknown): boolean {
+  if (!(err instanceof ApiError)) return false;
+  return err.isNetworkError || err.status === 408 || err.status === 429 || err.status >= 500;
+}
+
+const errorText = (err: unknown) => (err instanceof Error ? err.message : "Unable to send the application");
+
+const isExpired = (item: QueuedSubmission) => !(Date.now() - new Date(item.queuedAt).getTime() < EXPIRY_MS);
+
+const byQueuedAt = (a: QueuedSubmission, b: QueuedSubmission) => a.queuedAt.localeCompare(b.queuedAt);
+
+/** Wakes up when the earliest queued application is due again. */
+async function scheduleRetry() {
+  clearTimeout(retryTimer);
+  try {
+    const pending = (await submissionQueue.list()).filter((item) => !item.rejected);
+    if (pending.length === 0) return;
+
+    const delay = Math.min(...pending.map((item) => item.nextAttemptAt)) - Date.now();
+    retryTimer = setTimeout(() => void submissionQueue.sync(), Math.min(MAX_TIMEOUT_MS, Math.max(0, delay)));
+  } catch {
+    // Storage unavailable; the next submission or reconnect tries again
+  }
+}
+
+async function attempt(item: QueuedSubmission): Promise<"uploaded" | "retry" | "rejected"> {
+  try {
+    await api.submitApplication(item.payload, { idempotencyKey: item.id });
+    await submissions.delete(item.id);
+    emit({ type: "uploaded", submission: item });
+    return "uploaded";
+  } catch (err) {
+    const attempts = item.attempts + 1;
+    const rejected = !isRetryable(err);
+    const updated: QueuedSubmission = {
+      ...item,
+      attempts,
+      nextAttemptAt: Date.now() + getRetryDelay(attempts),
+      lastError: errorText(err),
+      rejected,
+    };
+    await submissions.put(updated);
+    if (rejected) emit({ type: "rejected", submission: updated });
+    return rejected ? "rejected" : "retry";
+  }
+}
+
+export const submissionQueue = {
+  /**
+   * Sends an application, keeping it on this device when the network or the
+   * server fails so it can be retried in the background. Throws only when the
+   * backend rejects it (or nothing could be saved locally either).
+   */
+  async submit(payload: ApplicationInput, values: ApplicationFormValues): Promise<SubmitResult> {
+    const id = createIdempotencyKey();
+    try {
+      await api.submitApplication(payload, { idempotencyKey: id });
+      return { queued: false };
+    } catch (err) {
+      if (!isRetryable(err)) throw err;
+
+      try {
+        await submissions.put({
+          id,
+          payload,
+          values,
+          queuedAt: new Date().toISOString(),
+          attempts: 1,
+          nextAttemptAt: Date.now() + getRetryDelay(1),
+          lastError: errorText(err),
+        });
+      } catch {
+        // Without local storage there is nowhere to keep it; report the original failure
+        throw err;
+      }
+      emit({ type: "changed" });
+      void scheduleRetry();
+      return { queued: true };
+    }
+  },
+
+  /** Queued applications, oldest first. Expired ones are deleted on read. */
+  async list(): Promise<QueuedSubmission[]> {
+    const items = await submissions.getAll();
+    const expired = items.filter(isExpired);
+    await Promise.all(expired.map((item) => submissions.delete(item.id)));
+    return items.filter((item) => !isExpired(item)).sort(byQueuedAt);
+  },
+
+  async discard(id: string): Promise<void> {
+    await submissions.delete(id);
+    emit({ type: "changed" });
+    void scheduleRetry();
+  },
+
+  /** Removes an application from the queue and returns it, to be corrected in the form. */
+  async take(id: string): Promise<QueuedSubmission | undefined> {
+    const item = await submissions.get(id);
+    if (item) await this.discard(id);
+    return item;
+  },
+
+  isSyncing(): boolean {
+    return syncing !== null;
+  },
+
+  /**
+   * Sends every queued application that is due (or all of them when `force` is
+   * set), oldest first. Stops at the first network failure, as the rest would
+   * fail the same way. Concurrent calls share one run.
+   */
+  sync({ force = false }: { force?: boolean } = {}): Promise<void> {
+    if (syncing) return syncing;
+    if (!force && typeof navigator !== "undefined" && navigator.onLine === false) return Promise.resolve();
+
+    syncing = (async () => {
+      for (const item of await this.list()) {
+        if (item.rejected || (!force && item.nextAttemptAt > Date.now())) continue;
+        if ((await attempt(item)) === "retry") break;
+      }
+    })()
+      .catch(() => undefined)
+      .finally(() => {
+        syncing = null;
+        emit({ type: "changed" });
+        void scheduleRetry();
+      });
+    emit({ type: "changed" });
+    return syncing;
+  },
+
+  subscribe(listener: (event: SubmissionQueueEvent) => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * Retries in the background: on start, when the scheduled backoff elapses and
+   * as soon as the browser comes back online. Returns a function that stops it.
+   */
+  start(): () => void {
+    const handleOnline = () => void this.sync({ force: true });
+    window.addEventListener("online", handleOnline);
+    void this.sync();
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      clearTimeout(retryTimer);
+    };
+  },
+};
@@ -0,0 +1,132 @@
+// src/lib/validation.ts
+// Indian identity and contact rules shared by the applicant form and admin edits.
+import * as z from "zod";
+import { differenceInYears } from "date-fns";
+
+/** A trimmed string checked by `test`; empty values pass unless the field is required. */
+const formatField = (label: string, required: boolean, test: (value: string) => boolean, message: string) =>
+  z
+    .string()
+    .trim()
+    .superRefine((value, ctx) => {
+      if (!value) {
+        if (required) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${label} is required` });
+      } else if (!test(value)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+      }
+    });
+
+// ---------- Mobile numbers ----------
+
+/**
+ * Reduces a mobile number to its 10 digits, dropping spaces, dashes and a
+ * +91 / 91 / 0 prefix. Returns the input unchanged if it can't be reduced.
+ */
+export function normalizeMobileNumber(value: string): string {
+  const digits = value.replace(/[\s\-()]/g, "");
+  const match = digits.match(/^(?:\+?91|0)?(\d{10})$/);
+  return match ? match[1] : value.trim();
+}
+
+/** Indian mobile numbers are 10 digits starting with 6, 7, 8 or 9. */
+export const isValidMobileNumber = (value: string) => /^[6-9]\d{9}$/.test(normalizeMobileNumber(value));
+
+export const mobileNumberField = (label = "Phone number", required = true) =>
+  formatField(label, required, isValidMobileNumber, `${label} must be a valid 10-digit Indian mobile number`);
+
+// ---------- PIN code ----------
+
+export const isValidPinCode = (value: string) => /^[1-9]\d{5}$/.test(value.trim());
+
+export const pinCodeField = (required = true) =>
+  formatField("PIN code", required, isValidPinCode, "Enter a valid 6-digit PIN code");
+
+// ---------- PAN ----------
+
+// Five letters, four digits, a letter; the fourth letter is the holder type (P for individuals)
+const PAN_PATTERN = /^[A-Z]{3}[ABCFGHJLPT][A-Z]\d{4}[A-Z]$/;
+
+export const normalizePan = (value: string) => value.replace(/\s/g, "").toUpperCase();
+
+export const isValidPan = (value: string) => PAN_PATTERN.test(normalizePan(value));
+
+export const panField = (required = true) =>
+  formatField("PAN", required, isValidPan, "Enter a valid PAN, e.g. ABCDE1234F");
+
+// ---------- Aadhaar ----------
+
+// Verhoeff checksum tables; the last Aadhaar digit is a Verhoeff check digit
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+function verhoeffValid(digits: string): boolean {
+  let check = 0;
+  [...digits].reverse().forEach((digit, i) => {
+    check = VERHOEFF_D[check][VERHOEFF_P[i % 8][Number(digit)]];
+  });
+  return check === 0;
+}
+
+export const normalizeAadhaar = (value: string) => value.replace(/[\s-]/g, "");
+
+/** 12 digits, not starting with 0 or 1, with a valid check digit. */
+export function isValidAadhaar(value: string): boolean {
+  const digits = normalizeAadhaar(value);
+  return /^[2-9]\d{11}$/.test(digits) && verhoeffValid(digits);
+}
+
+export const aadhaarField = (required = true) =>
+  formatField("Aadhaar number", required, isValidAadhaar, "Enter a valid 12-digit Aadhaar number");
+
+/** Shows only the last four digits, as UIDAI requires for display. */
+export function maskAadhaar(value: string | undefined): string {
+  const digits = normalizeAadhaar(value ?? "");
+  return digits.length === 12 ? `XXXX XXXX ${digits.slice(8)}` : "";
+}
+
+// ---------- Age ----------
+
+export const MIN_APPLICANT_AGE = 21;
+export const MAX_APPLICANT_AGE = 65;
+
+export function ageOn(dateOfBirth: string, date = new Date()): number | null {
+  const dob = new Date(dateOfBirth);
+  return Number.isNaN(dob.getTime()) ? null : differenceInYears(date, dob);
+}
+
+/**
+ * Date of birth within the applicant age range as of today. Pass `checkAge:
+ * false` where only a valid date is required, e.g. correcting older records.
+ */
+export const dateOfBirthField = ({ checkAge = true }: { checkAge?: boolean } = {}) =>
+  z
+    .string()
+    .min(1, "Date of birth is required")
+    .superRefine((value, ctx) => {
+      const age = ageOn(value);
+      const fail = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+
+      if (age === null) fail("Enter a valid date of birth");
+      else if (checkAge && age < MIN_APPLICANT_AGE) fail(`Applicants must be at least ${MIN_APPLICANT_AGE} years old`);
+      else if (checkAge && age > MAX_APPLICANT_AGE) fail(`Applicants must be ${MAX_APPLICANT_AGE} years old or younger`);
+    });
@@ -0,0 +1,215 @@
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import { useNavigate } from "react-router-dom";
+import { format, subDays } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { ArrowLeft, BarChart3 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { EnvironmentBadge } from "@/components/EnvironmentBadge";
+import { DateRangePicker } from "@/components/admin/DateRangePicker";
+import { useToast } from "@/hooks/use-toast";
+import { api, ApiError, type Application } from "@/lib/api";
+import {
+  ageDistribution,
+  countByCategory,
+  countByGender,
+  countByPeriod,
+  referralSplit,
+  statusFunnel,
+  type CountDatum,
+  type Granularity,
+} from "@/lib/analytics";
+
+const COLORS = [
+  "hsl(var(--chart-1))",
+  "hsl(var(--chart-2))",
+  "hsl(var(--chart-3))",
+  "hsl(var(--chart-4))",
+  "hsl(var(--chart-5))",
+];
+
+const countConfig = {
+  count: { label: "Applications", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+/** Chart config for pie slices, so legends and tooltips show the slice labels. */
+const sliceConfig = (data: CountDatum[]): ChartConfig =>
+  Object.fromEntries(
+    data.map((d, i) => [d.key, { label: d.label, color: COLORS[i % COLORS.length] }])
+  );
+
+function ChartCard({ title, description, children }: { title: string; description?: string; children: ReactNode }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+        {description && <CardDescription>{description}</CardDescription>}
+      </CardHeader>
+      <CardContent>{children}</CardContent>
+    </Card>
+  );
+}
+
+function BreakdownPie({ data }: { data: CountDatum[] }) {
+  if (data.every((d) => d.count === 0)) {
+    return <p className="text-sm text-gray-500 text-center py-16">No data</p>;
+  }
+
+  return (
+    <ChartContainer config={sliceConfig(data)} className="mx-auto aspect-square max-h-[280px]">
+      <PieChart>
+        <ChartTooltip content={<ChartTooltipContent nameKey="key" hideLabel />} />
+        <Pie data={data} dataKey="count" nameKey="key" innerRadius={50}>
+          {data.map((d, i) => (
+            <Cell key={d.key} fill={COLORS[i % COLORS.length]} />
+          ))}
+        </Pie>
+        <ChartLegend content={<ChartLegendContent nameKey="key" />} className="flex-wrap" />
+      </PieChart>
+    </ChartContainer>
+  );
+}
+
+function CountBars({ data, layout = "horizontal" }: { data: CountDatum[]; layout?: "horizontal" | "vertical" }) {
+  return (
+    <ChartContainer config={countConfig} className="h-[280px] w-full">
+      <BarChart data={data} layout={layout} margin={{ left: layout === "vertical" ? 24 : 0 }}>
+        <CartesianGrid vertical={layout === "vertical"} horizontal={layout === "horizontal"} />
+        {layout === "horizontal" ? (
+          <>
+            <XAxis dataKey="label" tickLine={false} axisLine={false} />
+            <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+          </>
+        ) : (
+          <>
+            <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+            <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={100} />
+          </>
+        )}
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  );
+}
+
+export default function AdminAnalytics() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [range, setRange] = useState<DateRange | undefined>(() => ({
+    from: subDays(new Date(), 30),
+    to: new Date(),
+  }));
+  const [granularity, setGranularity] = useState<Granularity>("day");
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const from = range?.from ? format(range.from, "yyyy-MM-dd") : "";
+  const to = range?.to ? format(range.to, "yyyy-MM-dd") : "";
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    api
+      .getAllApplications({ from, to })
+      .then((data) => !cancelled && setApplications(data))
+      .catch((err) => {
+        if (cancelled || (err instanceof ApiError && err.isUnauthorized)) return;
+        toast({
+          title: "Error",
+          description: err instanceof ApiError ? err.message : "Failed to load analytics",
+          variant: "destructive",
+        });
+      })
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [from, to, toast]);
+
+  const overTime = useMemo(() => countByPeriod(applications, granularity), [applications, granularity]);
+  const byCategory = useMemo(() => countByCategory(applications), [applications]);
+  const byGender = useMemo(() => countByGender(applications), [applications]);
+  const byAge = useMemo(() => ageDistribution(applications), [applications]);
+  const referrals = useMemo(() => referralSplit(applications), [applications]);
+  const funnel = useMemo(() => statusFunnel(applications), [applications]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="max-w-7xl mx-auto space-y-6">
+
+        {/* HEADER */}
+        <div className="flex justify-between items-center flex-wrap gap-2">
+          <div className="flex items-center gap-3">
+            <BarChart3 className="h-8 w-8 text-primary" />
+            <h1 className="text-4xl font-bold">Analytics</h1>
+            <EnvironmentBadge />
+          </div>
+          <div className="flex gap-2 flex-wrap">
+            <DateRangePicker value={range} onChange={setRange} />
+            <Button variant="outline" onClick={() => navigate("/admin/dashboard")}>
+              <ArrowLeft className="mr-2 h-4 w-4" /> Dashboard
+            </Button>
+          </div>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          {loading ? "Loading..." : `${applications.length.toLocaleString()} applications in range`}
+        </p>
+
+        <ChartCard title="Applications over time">
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={granularity}
+            onValueChange={(value) => value && setGranularity(value as Granularity)}
+            className="justify-start mb-4"
+          >
+            <ToggleGroupItem value="day">Daily</ToggleGroupItem>
+            <ToggleGroupItem value="week">Weekly</ToggleGroupItem>
+            <ToggleGroupItem value="month">Monthly</ToggleGroupItem>
+          </ToggleGroup>
+          <CountBars data={overTime} />
+        </ChartCard>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <ChartCard title="By loan category">
+            <BreakdownPie data={byCategory} />
+          </ChartCard>
+          <ChartCard title="By gender">
+            <BreakdownPie data={byGender} />
+          </ChartCard>
+          <ChartCard title="Age distribution" description="Age at the time of application">
+            <CountBars data={byAge} />
+          </ChartCard>
+          <ChartCard title="Referral vs direct">
+            <BreakdownPie data={referrals} />
+          </ChartCard>
+        </div>
+
+        <ChartCard
+          title="Status conversion"
+          description={funnel
+            .slice(1)
+            .map((stage) => `${stage.label}: ${stage.rate}%`)
+            .join(" · ")}
+        >
+          <CountBars data={funnel} layout="vertical" />
+        </ChartCard>
+      </div>
+    </div>
+  );
+}
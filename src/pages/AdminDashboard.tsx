@@ -1,6 +1,7 @@
-import { useEffect, useState, useMemo } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import Lottie from "lottie-react";
+import { format, subDays } from "date-fns";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -8,14 +9,6 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from "@/components/ui/table";
 import {
   Dialog,
   DialogContent,
@@ -23,177 +16,485 @@ import {
   DialogDescription,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { Download, LogOut, Settings, Database } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { BarChart3, Download, LogOut, Settings, Database, Pencil } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { BACKEND_URL } from "@/config";
+import { EnvironmentBadge } from "@/components/EnvironmentBadge";
+import { StatusBadge } from "@/components/admin/StatusBadge";
+import { ApplicationsTable } from "@/components/admin/ApplicationsTable";
+import { ColumnChooser } from "@/components/admin/ColumnChooser";
+import { ExportDialog } from "@/components/admin/ExportDialog";
+import { BulkActionsBar } from "@/components/admin/BulkActionsBar";
+import { BulkProgressDialog } from "@/components/admin/BulkProgressDialog";
+import { StatusTimeline } from "@/components/admin/StatusTimeline";
+import { StatusTransitionForm } from "@/components/admin/StatusTransitionForm";
+import { ApplicationNotes } from "@/components/admin/ApplicationNotes";
+import { ActivityLog } from "@/components/admin/ActivityLog";
+import { DocumentViewer } from "@/components/admin/DocumentViewer";
+import { ApplicationLetters } from "@/components/admin/ApplicationLetters";
+import { VerifiedBadge } from "@/components/admin/VerifiedBadge";
+import { ApplicantEditDialog } from "@/components/admin/ApplicantEditDialog";
+import { DuplicateCompareDialog } from "@/components/admin/DuplicateCompareDialog";
+import { api, ApiError, type Application, type StorageStatus } from "@/lib/api";
+import { useAuth } from "@/hooks/use-auth";
+import { useApplicationQuery } from "@/hooks/use-application-query";
+import { useColumnLayout } from "@/hooks/use-column-layout";
+import { useBulkAction } from "@/hooks/use-bulk-action";
+import { useDuplicates } from "@/hooks/use-duplicates";
+import { DEFAULT_COLUMN_ORDER } from "@/lib/application-columns";
+import { buildExportFilename, exportApplications } from "@/lib/export";
+import { downloadBlob } from "@/lib/download";
+import type { BatchPdfFormat } from "@/lib/pdf";
+import { LOAN_CATEGORIES } from "@/lib/loan-categories";
+import { getLoanDetailRows } from "@/lib/loan-details";
+import type { ApplicantEditValues } from "@/lib/application-schema";
+import { formatReferral, getReferrals } from "@/lib/referrals";
+import { LETTER_KIND_LABELS } from "@/lib/letters";
+import { DUPLICATE_REASON_LABELS, type DuplicateMatch } from "@/lib/duplicates";
+import { maskAadhaar, normalizeAadhaar, normalizeMobileNumber, normalizePan } from "@/lib/validation";
+import type { ActivityType } from "@/lib/activity";
+import {
+  APPLICATION_STATUSES,
+  STATUS_LABELS,
+  canTransition,
+  getStatus,
+  type ApplicationStatus,
+} from "@/lib/status";
 
-const PAGE_SIZE = 20;
+/** yyyy-MM-dd (local time) for the date `days` days before today. */
+const daysAgo = (days: number) => format(subDays(new Date(), days), "yyyy-MM-dd");
 
 export default function AdminDashboard() {
   const navigate = useNavigate();
   const { toast } = useToast();
-
-  const [applications, setApplications] = useState([]);
-  const [selectedApplication, setSelectedApplication] = useState(null);
+  const { username, logout } = useAuth();
+
+  const { query, setQuery } = useApplicationQuery();
+  const {
+    layout: columnLayout,
+    visibleColumns,
+    toggleColumn,
+    moveColumn,
+    resetLayout,
+  } = useColumnLayout(username);
+
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [total, setTotal] = useState(0);
+  const [statusCounts, setStatusCounts] = useState<Partial<Record<ApplicationStatus, number>> | null>(null);
+  const [selectedApplication, setSelectedApplication] = useState<Application | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [activityVersion, setActivityVersion] = useState(0);
+  const [isEditOpen, setIsEditOpen] = useState(false);
 
-  const [searchTerm, setSearchTerm] = useState("");
-  const [filterLoanCategory, setFilterLoanCategory] = useState("");
-  const [last7DaysOnly, setLast7DaysOnly] = useState(false);
-
-  const [currentPage, setCurrentPage] = useState(1);
-
-  const [storage, setStorage] = useState(null);
-
-  // ✅ LOADING STATE
+  // Only the rows on screen and the open application are checked for duplicates
+  const { findDuplicates, reload: reloadDuplicates } = useDuplicates(
+    [...applications.map((a) => a._id), selectedApplication?._id].filter(Boolean)
+  );
+  const [comparison, setComparison] = useState<{ app: Application; match: DuplicateMatch } | null>(null);
+
+  const [selected, setSelected] = useState<Map<string, Application>>(new Map());
+  const [allMatchingSelected, setAllMatchingSelected] = useState(false);
+  // Rows unchecked after selecting all matching, wherever they are in the result set
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [isBulkBusy, setIsBulkBusy] = useState(false);
+  const {
+    progress: bulkProgress,
+    run: runBulkAction,
+    cancel: cancelBulkAction,
+    dismiss: dismissBulkProgress,
+  } = useBulkAction();
+
+  // Typed search is pushed to the URL after a short pause
+  const [searchInput, setSearchInput] = useState(query.q);
+
+  const [storage, setStorage] = useState<StorageStatus | null>(null);
+
+  // ✅ LOADING STATE (fullscreen on first load only)
   const [loading, setLoading] = useState(true);
+  const [isFetching, setIsFetching] = useState(false);
+  const requestIdRef = useRef(0);
 
-  useEffect(() => {
-    const token = sessionStorage.getItem("admin_token");
-    if (!token) return navigate("/admin/login");
-
-    fetchApplications(token);
-    fetchStorageStatus(token);
-  }, []);
-
-  // Reset page when filters change
-  useEffect(() => {
-    setCurrentPage(1);
-  }, [searchTerm, filterLoanCategory, last7DaysOnly]);
-
-  const fetchApplications = async (token) => {
+  const fetchApplications = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
     try {
-      setLoading(true);
-
-      const res = await fetch(`${BACKEND_URL}/applications`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-
-      if (res.status === 401) {
-        sessionStorage.removeItem("admin_token");
-        navigate("/admin/login");
-        return;
-      }
-
-      const data = await res.json();
-      setApplications(data);
-    } catch {
+      setIsFetching(true);
+      const data = await api.getApplications(query);
+      if (requestId !== requestIdRef.current) return;
+
+      setApplications(data.items);
+      setTotal(data.total);
+      setStatusCounts(data.statusCounts ?? null);
+    } catch (err) {
+      // 401s are redirected to the login page by the API client
+      if (err instanceof ApiError && err.isUnauthorized) return;
       toast({
         title: "Error",
-        description: "Failed to load applications",
+        description: err instanceof ApiError ? err.message : "Failed to load applications",
         variant: "destructive",
       });
     } finally {
-      setLoading(false);
+      if (requestId === requestIdRef.current) {
+        setIsFetching(false);
+        setLoading(false);
+      }
     }
-  };
+  }, [query, toast]);
 
-  const fetchStorageStatus = async (token) => {
+  useEffect(() => {
+    fetchApplications();
+  }, [fetchApplications]);
+
+  useEffect(() => {
+    fetchStorageStatus();
+  }, []);
+
+  // A selection only makes sense for the filters it was made under
+  const { page: _page, ...filters } = query;
+  const filterKey = JSON.stringify(filters);
+  useEffect(() => {
+    setSelected(new Map());
+    setAllMatchingSelected(false);
+    setExcluded(new Set());
+  }, [filterKey]);
+
+  // Keep the box in sync when the URL changes (back/forward, shared links)
+  useEffect(() => {
+    setSearchInput(query.q);
+  }, [query.q]);
+
+  useEffect(() => {
+    if (searchInput === query.q) return;
+    const timeout = setTimeout(() => setQuery({ q: searchInput }), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput, query.q, setQuery]);
+
+  const fetchStorageStatus = async () => {
     try {
-      const res = await fetch(`${BACKEND_URL}/storage-status`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (res.ok) setStorage(await res.json());
+      setStorage(await api.getStorageStatus());
     } catch {
       // silent
     }
   };
 
   const handleLogout = () => {
-    sessionStorage.removeItem("admin_token");
+    logout();
     toast({ title: "Logged out successfully" });
     navigate("/admin/login");
   };
 
-  const handleViewDetails = (app) => {
+  // Activity logging never blocks or fails the action it records
+  const logActivity = async (app: Application, type: ActivityType, details?: string) => {
+    try {
+      await api.logApplicationActivity(app._id, { type, details });
+      setActivityVersion((v) => v + 1);
+    } catch {
+      // silent
+    }
+  };
+
+  const handleViewDetails = (app: Application) => {
     setSelectedApplication(app);
     setIsDialogOpen(true);
+    logActivity(app, "viewed");
   };
 
-  const handleDelete = async (app) => {
+  const handleDelete = async (app: Application) => {
     if (!confirm(`Delete application from ${app.name}?`)) return;
 
     try {
-      const token = sessionStorage.getItem("admin_token");
-      const res = await fetch(
-        `${BACKEND_URL}/applications/${app._id}`,
-        {
-          method: "DELETE",
-          headers: { Authorization: `Bearer ${token}` },
-        }
-      );
+      await api.deleteApplication(app._id);
+      logActivity(app, "deleted");
 
-      if (!res.ok) throw new Error();
-
-      setApplications((prev) => prev.filter((a) => a._id !== app._id));
       setIsDialogOpen(false);
       toast({ title: "Application deleted" });
-    } catch {
+      fetchApplications();
+      reloadDuplicates();
+    } catch (err) {
       toast({
         title: "Error",
-        description: "Delete failed",
+        description: err instanceof ApiError ? err.message : "Delete failed",
         variant: "destructive",
       });
     }
   };
 
-  const handleDownloadPDF = async (app) => {
+  const handleStatusChange = async (app: Application, status: ApplicationStatus, reason: string) => {
     try {
-      const token = sessionStorage.getItem("admin_token");
-      const res = await fetch(
-        `${BACKEND_URL}/applications/${app._id}/pdf`,
-        { headers: { Authorization: `Bearer ${token}` } }
+      const updated = await api.updateApplicationStatus(app._id, {
+        status,
+        reason: reason || undefined,
+      });
+      const merged = { ...app, ...updated };
+
+      setSelectedApplication(merged);
+      fetchApplications();
+      toast({ title: `Status changed to ${STATUS_LABELS[status]}` });
+
+      const change = `${STATUS_LABELS[getStatus(app)]} → ${STATUS_LABELS[status]}`;
+      logActivity(app, "status_changed", reason ? `${change}: ${reason}` : change);
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof ApiError ? err.message : "Status update failed",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  const handleApplicantEdit = async (app: Application, values: ApplicantEditValues) => {
+    try {
+      const updated = await api.updateApplication(app._id, {
+        ...values,
+        phoneNumber: normalizeMobileNumber(values.phoneNumber),
+        primaryContactNumber: normalizeMobileNumber(values.primaryContactNumber),
+        panNumber: normalizePan(values.panNumber),
+        aadhaarNumber: normalizeAadhaar(values.aadhaarNumber),
+      });
+      setSelectedApplication({ ...app, ...updated });
+      fetchApplications();
+      reloadDuplicates();
+      toast({ title: "Applicant details updated" });
+
+      const changed = (Object.keys(values) as (keyof ApplicantEditValues)[]).filter(
+        (key) => (updated[key] ?? "") !== (app[key] ?? "")
       );
+      logActivity(app, "edited", changed.length ? `Changed ${changed.join(", ")}` : undefined);
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof ApiError ? err.message : "Unable to save changes",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
 
-      if (!res.ok) throw new Error();
+  const handleMerge = async (keep: Application, archive: Application) => {
+    if (!confirm(`Keep the application from ${keep.name} and archive the other one?`)) return;
 
-      const blob = await res.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `application_${app._id}.pdf`;
-      a.click();
-    } catch {
+    try {
+      const updated = await api.mergeApplications(keep._id, archive._id);
+      toast({ title: "Applications merged", description: `${archive.name}'s duplicate was archived` });
+      logActivity(keep, "merged", `Archived duplicate ${archive._id}`);
+
+      setComparison(null);
+      if (selectedApplication?._id === archive._id || selectedApplication?._id === keep._id) {
+        setSelectedApplication({ ...keep, ...updated });
+      }
+      fetchApplications();
+      reloadDuplicates();
+    } catch (err) {
       toast({
         title: "Error",
-        description: "PDF download failed",
+        description: err instanceof ApiError ? err.message : "Merge failed",
         variant: "destructive",
       });
     }
   };
 
-  const filteredApplications = useMemo(() => {
-    const now = new Date();
-    const sevenDaysAgo = new Date();
-    sevenDaysAgo.setDate(now.getDate() - 7);
+  // Falls back to rendering the PDF in the browser when the backend can't
+  const getApplicationPdf = async (app: Application) => {
+    try {
+      return await api.getApplicationPdf(app._id);
+    } catch (err) {
+      if (!(err instanceof ApiError) || !(err.isNetworkError || err.status === 404 || err.status >= 500)) throw err;
+      const { generateApplicationPDF } = await import("@/lib/pdf");
+      return generateApplicationPDF(app, { generatedBy: username });
+    }
+  };
+
+  const handleDownloadPDF = async (app: Application) => {
+    try {
+      const blob = await getApplicationPdf(app);
+      downloadBlob(blob, `application_${app._id}.pdf`);
+
+      logActivity(app, "pdf_downloaded");
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof ApiError ? err.message : "PDF download failed",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // ---------- Bulk selection & actions ----------
+
+  const toggleExcluded = (ids: string[], checked: boolean) => {
+    const next = new Set(excluded);
+    ids.forEach((id) => (checked ? next.delete(id) : next.add(id)));
+    setExcluded(next);
+  };
+
+  const handleToggleRow = (app: Application, checked: boolean) => {
+    if (allMatchingSelected) {
+      toggleExcluded([app._id], checked);
+      return;
+    }
+
+    const next = new Map(selected);
+    if (checked) next.set(app._id, app);
+    else next.delete(app._id);
+    setSelected(next);
+  };
+
+  const handleTogglePage = (checked: boolean) => {
+    if (allMatchingSelected) {
+      toggleExcluded(applications.map((a) => a._id), checked);
+      return;
+    }
+
+    const next = new Map(selected);
+    applications.forEach((a) => (checked ? next.set(a._id, a) : next.delete(a._id)));
+    setSelected(next);
+  };
+
+  const selectAllMatching = () => {
+    setAllMatchingSelected(true);
+    setExcluded(new Set());
+  };
 
-    return applications.filter((app) => {
-      const matchesName = app.name
-        ?.toLowerCase()
-        .includes(searchTerm.toLowerCase());
+  const clearSelection = () => {
+    setSelected(new Map());
+    setAllMatchingSelected(false);
+    setExcluded(new Set());
+  };
+
+  const resolveSelection = async (): Promise<Application[]> =>
+    allMatchingSelected
+      ? (await api.getAllApplications(query)).filter((app) => !excluded.has(app._id))
+      : [...selected.values()];
+
+  const selectedCount = allMatchingSelected ? Math.max(0, total - excluded.size) : selected.size;
+
+  const runBulk = async (title: string, worker: (app: Application) => Promise<void>) => {
+    try {
+      setIsBulkBusy(true);
+      const items = await resolveSelection();
+      const result = await runBulkAction(title, items, worker);
+      // A cancelled run keeps the selection so it can be retried
+      if (!result.cancelled) clearSelection();
+      fetchApplications();
+      return result;
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof ApiError ? err.message : "Bulk action failed",
+        variant: "destructive",
+      });
+    } finally {
+      setIsBulkBusy(false);
+    }
+  };
 
-      const matchesLoan =
-        !filterLoanCategory || app.loanCategory === filterLoanCategory;
+  const handleBulkDelete = () => {
+    const count = selectedCount;
+    if (!confirm(`Delete ${count} selected application${count === 1 ? "" : "s"}?`)) return;
 
-      const matchesLast7Days =
-        !last7DaysOnly ||
-        new Date(app.submittedAt) >= sevenDaysAgo;
+    runBulk("Deleting applications", async (app) => {
+      await api.deleteApplication(app._id);
+      logActivity(app, "deleted");
+    }).then(reloadDuplicates);
+  };
 
-      return matchesName && matchesLoan && matchesLast7Days;
+  const handleBulkStatus = (status: ApplicationStatus, reason: string) => {
+    runBulk(`Changing status to ${STATUS_LABELS[status]}`, async (app) => {
+      const from = getStatus(app);
+      if (!canTransition(from, status)) {
+        throw new Error(`Cannot move from ${STATUS_LABELS[from]} to ${STATUS_LABELS[status]}`);
+      }
+      await api.updateApplicationStatus(app._id, { status, reason: reason || undefined });
+      logActivity(app, "status_changed", `${STATUS_LABELS[from]} → ${STATUS_LABELS[status]}`);
     });
-  }, [applications, searchTerm, filterLoanCategory, last7DaysOnly]);
+  };
 
-  const totalPages = Math.ceil(filteredApplications.length / PAGE_SIZE);
+  const handleBulkAssign = (assignee: string) => {
+    runBulk(`Assigning to ${assignee}`, async (app) => {
+      await api.assignApplication(app._id, assignee);
+    });
+  };
 
-  const paginatedApplications = useMemo(() => {
-    const start = (currentPage - 1) * PAGE_SIZE;
-    return filteredApplications.slice(start, start + PAGE_SIZE);
-  }, [filteredApplications, currentPage]);
+  const handleBulkExportCsv = async () => {
+    try {
+      setIsBulkBusy(true);
+      const items = await resolveSelection();
+      await exportApplications(
+        items,
+        DEFAULT_COLUMN_ORDER,
+        "csv",
+        buildExportFilename(allMatchingSelected ? query : {}, "csv", "applications-selected")
+      );
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof ApiError ? err.message : "Export failed",
+        variant: "destructive",
+      });
+    } finally {
+      setIsBulkBusy(false);
+    }
+  };
+
+  const handleBulkDownloadPdfs = async (format: BatchPdfFormat) => {
+    try {
+      setIsBulkBusy(true);
+      const date = new Date().toISOString().slice(0, 10);
+      const { createBatchApplicationPDF, generateApplicationPDF } = await import("@/lib/pdf");
+      const options = { generatedBy: username };
+      // Recorded as downloaded only once the file has actually been handed over
+      const included: Application[] = [];
+      const logDownloads = () => included.forEach((app) => logActivity(app, "pdf_downloaded"));
+
+      if (format === "merged") {
+        const batch = await createBatchApplicationPDF(options);
+        const result = await runBulk("Building merged PDF", async (app) => {
+          batch.add(app);
+          included.push(app);
+        });
+
+        if (!result || result.cancelled || batch.count === 0) return;
+        downloadBlob(batch.toBlob(), `applications-${date}.pdf`);
+        logDownloads();
+        return;
+      }
+
+      const { default: JSZip } = await import("jszip");
+      const zip = new JSZip();
+
+      const result = await runBulk("Downloading PDFs", async (app) => {
+        zip.file(`application_${app._id}.pdf`, await generateApplicationPDF(app, options));
+        included.push(app);
+      });
+
+      if (!result || result.cancelled || included.length === 0) return;
+      // runBulk clears the busy flag when it finishes; the archive still has to be built
+      setIsBulkBusy(true);
+      downloadBlob(await zip.generateAsync({ type: "blob" }), `applications-${date}.zip`);
+      logDownloads();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof ApiError ? err.message : "PDF download failed",
+        variant: "destructive",
+      });
+    } finally {
+      setIsBulkBusy(false);
+    }
+  };
 
-  const loanCategories = useMemo(
-    () => [...new Set(applications.map((a) => a.loanCategory))],
-    [applications]
+  const selectedIds = useMemo(
+    () =>
+      new Set(
+        allMatchingSelected ? applications.map((a) => a._id).filter((id) => !excluded.has(id)) : selected.keys()
+      ),
+    [allMatchingSelected, applications, selected, excluded]
   );
+  const pageFullySelected = applications.length > 0 && applications.every((a) => selectedIds.has(a._id));
+
+  const totalPages = Math.ceil(total / query.pageSize);
+  const last7DaysOnly = query.from === daysAgo(7) && !query.to;
+  const selectedDuplicates = selectedApplication ? findDuplicates(selectedApplication) : [];
 
   const storageColor =
     storage?.status === "critical"
@@ -221,8 +522,14 @@ export default function AdminDashboard() {
 
         {/* HEADER */}
         <div className="flex justify-between items-center flex-wrap gap-2">
-          <h1 className="text-4xl font-bold">Admin Dashboard</h1>
+          <div className="flex items-center gap-3">
+            <h1 className="text-4xl font-bold">Admin Dashboard</h1>
+            <EnvironmentBadge />
+          </div>
           <div className="flex gap-2">
+            <Button variant="outline" onClick={() => navigate("/admin/analytics")}>
+              <BarChart3 className="mr-2 h-4 w-4" /> Analytics
+            </Button>
             <Button variant="outline" onClick={() => navigate("/admin/settings")}>
               <Settings className="mr-2 h-4 w-4" /> Settings
             </Button>
@@ -260,105 +567,170 @@ export default function AdminDashboard() {
         )}
 
         {/* SEARCH & FILTERS */}
-        <div className="flex flex-col sm:flex-row gap-4 items-center">
+        <div className="flex flex-col sm:flex-row flex-wrap gap-4 items-center">
           <input
             type="text"
             placeholder="Search by name..."
             className="border rounded px-3 py-2 w-full sm:w-1/3"
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
           />
 
           <select
-            className="border rounded px-3 py-2 w-full sm:w-1/3"
-            value={filterLoanCategory}
-            onChange={(e) => setFilterLoanCategory(e.target.value)}
+            className="border rounded px-3 py-2 w-full sm:w-1/4"
+            value={query.category}
+            onChange={(e) => setQuery({ category: e.target.value })}
           >
             <option value="">All Loan Categories</option>
-            {loanCategories.map((cat) => (
-              <option key={cat} value={cat}>{cat}</option>
+            {LOAN_CATEGORIES.map((cat) => (
+              <option key={cat.value} value={cat.value}>{cat.label}</option>
             ))}
           </select>
 
+          <label className="flex items-center gap-2 text-sm">
+            From
+            <input
+              type="date"
+              className="border rounded px-2 py-1"
+              value={query.from}
+              max={query.to || undefined}
+              onChange={(e) => setQuery({ from: e.target.value })}
+            />
+          </label>
+
+          <label className="flex items-center gap-2 text-sm">
+            To
+            <input
+              type="date"
+              className="border rounded px-2 py-1"
+              value={query.to}
+              min={query.from || undefined}
+              onChange={(e) => setQuery({ to: e.target.value })}
+            />
+          </label>
+
           <label className="flex items-center gap-2 text-sm">
             <input
               type="checkbox"
               checked={last7DaysOnly}
-              onChange={(e) => setLast7DaysOnly(e.target.checked)}
+              onChange={(e) => setQuery(e.target.checked ? { from: daysAgo(7), to: "" } : { from: "", to: "" })}
             />
             Last 7 days
           </label>
         </div>
 
+        {/* STATUS FILTERS */}
+        <div className="flex flex-wrap gap-2">
+          <Button
+            size="sm"
+            variant={query.status === "" ? "default" : "outline"}
+            onClick={() => setQuery({ status: "" })}
+          >
+            All{statusCounts && ` (${Object.values(statusCounts).reduce((sum, n) => sum + (n ?? 0), 0)})`}
+          </Button>
+          {APPLICATION_STATUSES.map((status) => (
+            <Button
+              key={status}
+              size="sm"
+              variant={query.status === status ? "default" : "outline"}
+              onClick={() => setQuery({ status })}
+            >
+              {STATUS_LABELS[status]}
+              {statusCounts && ` (${statusCounts[status] ?? 0})`}
+            </Button>
+          ))}
+        </div>
+
+        {/* BULK ACTIONS */}
+        {selectedCount > 0 && (
+          <BulkActionsBar
+            selectedCount={selectedCount}
+            matchingCount={total}
+            allMatchingSelected={allMatchingSelected}
+            excludedCount={excluded.size}
+            canSelectAllMatching={pageFullySelected}
+            defaultAssignee={username}
+            busy={isBulkBusy}
+            onSelectAllMatching={selectAllMatching}
+            onClearSelection={clearSelection}
+            onStatusChange={handleBulkStatus}
+            onAssign={handleBulkAssign}
+            onExportCsv={handleBulkExportCsv}
+            onDownloadPdfs={handleBulkDownloadPdfs}
+            onDelete={handleBulkDelete}
+          />
+        )}
+
         {/* TABLE */}
         <Card>
-          <CardHeader>
-            <CardTitle>Manage Loan Applications</CardTitle>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>
+              Manage Loan Applications
+              <span className="ml-2 text-sm font-normal text-gray-500">
+                {isFetching ? "Loading..." : `${total.toLocaleString()} total`}
+              </span>
+            </CardTitle>
+            <div className="flex gap-2">
+              <ExportDialog
+                query={query}
+                total={total}
+                defaultColumns={visibleColumns}
+                columnOrder={columnLayout.order}
+              />
+              <ColumnChooser
+                layout={columnLayout}
+                onToggle={toggleColumn}
+                onMove={moveColumn}
+                onReset={resetLayout}
+              />
+            </div>
           </CardHeader>
           <CardContent>
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Name</TableHead>
-                  <TableHead>Phone</TableHead>
-                  <TableHead>Loan</TableHead>
-                  <TableHead>Date</TableHead>
-                  <TableHead>Actions</TableHead>
-                </TableRow>
-              </TableHeader>
-
-              <TableBody>
-                {paginatedApplications.length === 0 && (
-                  <TableRow>
-                    <TableCell colSpan="5" className="text-center py-6">
-                      No applications found
-                    </TableCell>
-                  </TableRow>
-                )}
-
-                {paginatedApplications.map((app) => (
-                  <TableRow key={app._id}>
-                    <TableCell>{app.name}</TableCell>
-                    <TableCell>{app.phoneNumber}</TableCell>
-                    <TableCell>{app.loanCategory}</TableCell>
-                    <TableCell>
-                      {new Date(app.submittedAt).toLocaleDateString()}
-                    </TableCell>
-                    <TableCell className="flex gap-2">
-                      <Button size="sm" variant="outline" onClick={() => handleViewDetails(app)}>
-                        View
-                      </Button>
-                      <Button size="sm" variant="outline" onClick={() => handleDownloadPDF(app)}>
-                        <Download className="h-4 w-4" />
-                      </Button>
-                      <Button size="sm" variant="destructive" onClick={() => handleDelete(app)}>
-                        Delete
-                      </Button>
-                    </TableCell>
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
+            <ApplicationsTable
+              applications={applications}
+              columns={visibleColumns}
+              sort={query.sort}
+              order={query.order}
+              onSortChange={(sort, order) => setQuery({ sort, order })}
+              selectedIds={selectedIds}
+              onToggleRow={handleToggleRow}
+              onTogglePage={handleTogglePage}
+              getDuplicates={findDuplicates}
+              onCompareDuplicate={(app, match) => setComparison({ app, match })}
+              renderActions={(app) => (
+                <>
+                  <Button size="sm" variant="outline" onClick={() => handleViewDetails(app)}>
+                    View
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleDownloadPDF(app)}>
+                    <Download className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="destructive" onClick={() => handleDelete(app)}>
+                    Delete
+                  </Button>
+                </>
+              )}
+            />
 
             {/* PAGINATION */}
             {totalPages > 1 && (
               <div className="flex justify-between items-center mt-4">
                 <Button
                   variant="outline"
-                  disabled={currentPage === 1}
-                  onClick={() => setCurrentPage((p) => p - 1)}
+                  disabled={query.page <= 1}
+                  onClick={() => setQuery({ page: query.page - 1 })}
                 >
                   Previous
                 </Button>
 
                 <span className="text-sm">
-                  Page {currentPage} of {totalPages}
+                  Page {query.page} of {totalPages}
                 </span>
 
                 <Button
                   variant="outline"
-                  disabled={currentPage === totalPages}
-                  onClick={() => setCurrentPage((p) => p + 1)}
+                  disabled={query.page >= totalPages}
+                  onClick={() => setQuery({ page: query.page + 1 })}
                 >
                   Next
                 </Button>
@@ -374,10 +746,18 @@ export default function AdminDashboard() {
           <DialogHeader>
             <DialogTitle>Application Details</DialogTitle>
             <DialogDescription>
-              Complete applicant information
+              Applicant information, status and case record
             </DialogDescription>
           </DialogHeader>
 
+          {selectedApplication && (
+            <div className="flex justify-end">
+              <Button size="sm" variant="outline" onClick={() => setIsEditOpen(true)}>
+                <Pencil className="mr-2 h-4 w-4" /> Edit Details
+              </Button>
+            </div>
+          )}
+
           {selectedApplication && (
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-4">
               {[
@@ -386,23 +766,133 @@ export default function AdminDashboard() {
                 ["Primary Contact", selectedApplication.primaryContactNumber],
                 ["Gender", selectedApplication.gender],
                 ["DOB", selectedApplication.dateOfBirth],
+                ["PAN", selectedApplication.panNumber],
+                ["Aadhaar", maskAadhaar(selectedApplication.aadhaarNumber)],
                 ["Loan Category", selectedApplication.loanCategory],
                 ["Loan Category Other", selectedApplication.loanCategoryOther],
+                ...getLoanDetailRows(selectedApplication),
                 ["Address", selectedApplication.address],
-                ["Referral Name 1", selectedApplication.referralName1],
-                ["Referral Phone 1", selectedApplication.referralPhone1],
-                ["Referral Name 2", selectedApplication.referralName2],
-                ["Referral Phone 2", selectedApplication.referralPhone2],
+                ["PIN Code", selectedApplication.pinCode],
+                ["City / State", [selectedApplication.city, selectedApplication.state].filter(Boolean).join(", ")],
+                ...getReferrals(selectedApplication).map((referral, i) => [
+                  `Referrer ${i + 1}`,
+                  formatReferral(referral),
+                ]),
               ].map(([label, value]) => (
                 <div key={label}>
                   <p className="text-sm text-gray-500">{label}</p>
-                  <p className="font-medium">{value || "-"}</p>
+                  <p className="font-medium">
+                    {value || "-"}
+                    {label === "Phone Number" && selectedApplication.phoneVerified && (
+                      <VerifiedBadge className="ml-2" />
+                    )}
+                  </p>
                 </div>
               ))}
             </div>
           )}
+
+          {selectedApplication && (
+            <div className="space-y-6 mt-6 border-t pt-6">
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <h3 className="font-semibold">Status</h3>
+                  <StatusBadge status={getStatus(selectedApplication)} />
+                </div>
+                <StatusTransitionForm
+                  key={selectedApplication._id}
+                  current={getStatus(selectedApplication)}
+                  onSubmit={(status, reason) => handleStatusChange(selectedApplication, status, reason)}
+                />
+              </div>
+
+              {selectedDuplicates.length > 0 && (
+                <div className="space-y-3">
+                  <h3 className="font-semibold">Possible Duplicates</h3>
+                  <ul className="space-y-2">
+                    {selectedDuplicates.map((match) => (
+                      <li
+                        key={match.application._id}
+                        className="flex items-center justify-between gap-4 rounded-md border p-3 text-sm"
+                      >
+                        <div>
+                          <p className="font-medium">{match.application.name}</p>
+                          <p className="text-gray-500">
+                            Submitted {new Date(match.application.submittedAt).toLocaleDateString()} ·{" "}
+                            {match.reasons.map((r) => DUPLICATE_REASON_LABELS[r]).join(", ")}
+                          </p>
+                        </div>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setComparison({ app: selectedApplication, match })}
+                        >
+                          Compare
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="space-y-3">
+                <h3 className="font-semibold">Status History</h3>
+                <StatusTimeline history={selectedApplication.statusHistory ?? []} />
+              </div>
+
+              <Tabs defaultValue="notes">
+                <TabsList>
+                  <TabsTrigger value="notes">Notes</TabsTrigger>
+                  <TabsTrigger value="activity">Activity</TabsTrigger>
+                  <TabsTrigger value="documents">
+                    Documents ({selectedApplication.documents?.length ?? 0})
+                  </TabsTrigger>
+                  <TabsTrigger value="letters">Letters</TabsTrigger>
+                </TabsList>
+                <TabsContent value="notes" className="pt-2">
+                  <ApplicationNotes applicationId={selectedApplication._id} />
+                </TabsContent>
+                <TabsContent value="activity" className="pt-2">
+                  <ActivityLog applicationId={selectedApplication._id} refreshKey={activityVersion} />
+                </TabsContent>
+                <TabsContent value="documents" className="pt-2">
+                  <DocumentViewer
+                    key={selectedApplication._id}
+                    applicationId={selectedApplication._id}
+                    documents={selectedApplication.documents ?? []}
+                  />
+                </TabsContent>
+                <TabsContent value="letters" className="pt-2">
+                  <ApplicationLetters
+                    application={selectedApplication}
+                    generatedBy={username}
+                    onGenerated={(letter) =>
+                      logActivity(selectedApplication, "letter_generated", LETTER_KIND_LABELS[letter.kind])
+                    }
+                  />
+                </TabsContent>
+              </Tabs>
+            </div>
+          )}
         </DialogContent>
       </Dialog>
+
+      <ApplicantEditDialog
+        application={selectedApplication}
+        open={isEditOpen}
+        onOpenChange={setIsEditOpen}
+        onSave={(values) => handleApplicantEdit(selectedApplication, values)}
+      />
+
+      <DuplicateCompareDialog
+        application={comparison?.app ?? null}
+        match={comparison?.match ?? null}
+        open={!!comparison}
+        onOpenChange={(open) => !open && setComparison(null)}
+        onMerge={handleMerge}
+      />
+
+      <BulkProgressDialog progress={bulkProgress} onClose={dismissBulkProgress} onCancel={cancelBulkAction} />
     </div>
   );
 }
@@ -7,9 +7,11 @@ import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
 import { Lock } from "lucide-react";
-import { BACKEND_URL } from "@/config";
+import { api, ApiError, type LoginRequest } from "@/lib/api";
+import { useAuth } from "@/hooks/use-auth";
+
 const formSchema = z.object({
   username: z.string().min(1, "Username is required"),
   password: z.string().min(1, "Password is required"),
@@ -18,6 +20,8 @@ const formSchema = z.object({
 export default function AdminLogin() {
   const { toast } = useToast();
   const navigate = useNavigate();
+  const location = useLocation();
+  const { login } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
 
   const form = useForm<z.infer<typeof formSchema>>({
@@ -32,40 +36,29 @@ export default function AdminLogin() {
     setIsLoading(true);
 
     try {
-      const res = await fetch(`${BACKEND_URL}/login`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(values),
-      });
-
-      const data = await res.json();
-
-      if (!res.ok) {
-        toast({
-          title: "Login Failed",
-          description: data.message || "Invalid credentials",
-          variant: "destructive",
-        });
-        setIsLoading(false);
-        return;
-      }
+      const data = await api.login(values as LoginRequest);
 
       // Save JWT + username
-      sessionStorage.setItem("admin_token", data.token);
-      sessionStorage.setItem("admin_authenticated","true");
-      sessionStorage.setItem("admin_username", data.username);
+      login(data);
 
       toast({
         title: "Login Successful",
         description: "Welcome to the admin dashboard",
       });
 
-      navigate("/admin/dashboard");
+      // Send the admin back to the page the guard bounced them from, filters included
+      const from = location.state?.from;
+      const returnTo =
+        from?.pathname && from.pathname !== "/admin/logout"
+          ? `${from.pathname}${from.search ?? ""}${from.hash ?? ""}`
+          : "/admin/dashboard";
+      navigate(returnTo, { replace: true });
 
     } catch (err) {
+      const rejected = err instanceof ApiError && !err.isNetworkError;
       toast({
-        title: "Server Error",
-        description: "Unable to reach backend server",
+        title: rejected ? "Login Failed" : "Server Error",
+        description: rejected ? err.message : "Unable to reach backend server",
         variant: "destructive",
       });
     }
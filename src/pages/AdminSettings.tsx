@@ -1,9 +1,9 @@
-import { useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { useForm, SubmitHandler } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
-import { BACKEND_URL } from "@/config";
+import { api, ApiError } from "@/lib/api";
+import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -16,7 +16,8 @@ import {
 } from "@/components/ui/form";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Settings } from "lucide-react";
+import { ArrowLeft, FileText, Settings } from "lucide-react";
+import { LetterTemplatesEditor } from "@/components/admin/LetterTemplatesEditor";
 
 const formSchema = z.object({
   currentPassword: z.string().min(1, "Current password is required"),
@@ -32,6 +33,7 @@ type FormValues = z.infer<typeof formSchema>;
 export default function AdminSettings(): JSX.Element {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { username, logout } = useAuth();
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -42,57 +44,31 @@ export default function AdminSettings(): JSX.Element {
     }
   });
 
-  // ✅ FIXED AUTH CHECK → check for admin_token, not admin_authenticated
-  useEffect(() => {
-    const token = sessionStorage.getItem("admin_token");
-    if (!token) navigate("/admin/login");
-  }, [navigate]);
-
   const onSubmit: SubmitHandler<FormValues> = async (values) => {
     try {
-      const token = sessionStorage.getItem("admin_token");
-
-      // ✅ FIXED ROUTE: /admin/update (not /api/admin/update)
-      const res = await fetch(`${BACKEND_URL}/admin/update`, {
-        method: "PATCH",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${token}`
-        },
-        body: JSON.stringify({
-          username: sessionStorage.getItem("admin_username"),
-          currentPassword: values.currentPassword,
-          newPassword: values.newPassword
-        })
+      await api.updateAdmin({
+        username,
+        currentPassword: values.currentPassword,
+        newPassword: values.newPassword
       });
 
-      const data = await res.json();
-
-      if (!res.ok) {
-        toast({
-          title: "Update Failed",
-          description: data.message || "Unable to update password",
-          variant: "destructive"
-        });
-        return;
-      }
-
       toast({
         title: "Password Updated",
         description: "Please login again with your new password"
       });
 
       // Logout after password update
-      sessionStorage.removeItem("admin_token");
-      sessionStorage.removeItem("admin_username");
-
-      setTimeout(() => navigate("/admin/login"), 1200);
+      setTimeout(() => {
+        logout();
+        navigate("/admin/login");
+      }, 1200);
 
     } catch (err) {
       console.error(err);
+      const rejected = err instanceof ApiError && !err.isNetworkError;
       toast({
-        title: "Server Error",
-        description: "Could not reach backend",
+        title: rejected ? "Update Failed" : "Server Error",
+        description: rejected ? err.message : "Could not reach backend",
         variant: "destructive"
       });
     }
@@ -167,6 +143,20 @@ export default function AdminSettings(): JSX.Element {
             </Form>
           </CardContent>
         </Card>
+
+        <Card className="shadow-lg mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5 text-primary" /> Letter Templates
+            </CardTitle>
+            <CardDescription>
+              Wording of the sanction and rejection letters generated from the dashboard
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <LetterTemplatesEditor />
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
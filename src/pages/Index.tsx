@@ -1,11 +1,37 @@
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { EmiCalculator, type EmiInputs } from "@/components/EmiCalculator";
 import { useNavigate } from "react-router-dom";
-import { FileText } from "lucide-react";
+import { Calculator, FileText } from "lucide-react";
+import { LOAN_CATEGORIES } from "@/lib/loan-categories";
+import { getDefaultRate } from "@/lib/emi";
+import type { LoanScenario } from "@/lib/application-schema";
 import saiLogo from "@/assets/sai-logo.png";
 
 export default function Index() {
   const navigate = useNavigate();
+  const [category, setCategory] = useState("personal");
+  const [monthlyIncome, setMonthlyIncome] = useState("");
+  const [emiInputs, setEmiInputs] = useState<EmiInputs>({
+    amount: 500_000,
+    annualRate: getDefaultRate("personal"),
+    tenureMonths: 60,
+  });
+
+  const handleCategoryChange = (value: string) => {
+    setCategory(value);
+    setEmiInputs((inputs) => ({ ...inputs, annualRate: getDefaultRate(value) }));
+  };
+
+  // Start the application from the loan worked out here
+  const handleApply = () => {
+    const scenario: LoanScenario = { loanCategory: category, ...emiInputs };
+    navigate("/loan-form", { state: { scenario } });
+  };
 
   return (
     <div className="min-h-screen bg-background flex items-center justify-center p-4">
@@ -38,6 +64,55 @@ export default function Index() {
               </Button>
             </CardContent>
           </Card>
+
+          <Card className="shadow-lg">
+            <CardHeader className="text-center">
+              <div className="flex justify-center mb-4">
+                <div className="bg-primary/10 p-4 rounded-full">
+                  <Calculator className="h-12 w-12 text-primary" />
+                </div>
+              </div>
+              <CardTitle className="text-2xl">EMI Calculator</CardTitle>
+              <CardDescription>Estimate your monthly payment before you apply</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="emi-category">Loan category</Label>
+                  <Select value={category} onValueChange={handleCategoryChange}>
+                    <SelectTrigger id="emi-category">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LOAN_CATEGORIES.map((c) => (
+                        <SelectItem key={c.value} value={c.value}>
+                          {c.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="emi-income">Monthly income (optional)</Label>
+                  <Input
+                    id="emi-income"
+                    type="number"
+                    inputMode="numeric"
+                    min={0}
+                    placeholder="e.g. 45000"
+                    value={monthlyIncome}
+                    onChange={(e) => setMonthlyIncome(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <EmiCalculator value={emiInputs} onChange={setEmiInputs} monthlyIncome={Number(monthlyIncome)} />
+
+              <Button size="lg" variant="outline" className="w-full" onClick={handleApply}>
+                Apply Now
+              </Button>
+            </CardContent>
+          </Card>
         </div>
       </div>
     </div>
@@ -1,90 +1,198 @@
-import { useForm } from "react-hook-form";
+import { useState } from "react";
+import { useForm, type FieldErrors } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import * as z from "zod";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form } from "@/components/ui/form";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { StepIndicator } from "@/components/loan-form/StepIndicator";
+import { PersonalStep } from "@/components/loan-form/PersonalStep";
+import { ContactStep } from "@/components/loan-form/ContactStep";
+import { LoanStep } from "@/components/loan-form/LoanStep";
+import { ReferralStep } from "@/components/loan-form/ReferralStep";
+import { DocumentsStep } from "@/components/loan-form/DocumentsStep";
+import { ReviewStep } from "@/components/loan-form/ReviewStep";
+import { DraftBanner } from "@/components/loan-form/DraftBanner";
+import { PendingSubmissions } from "@/components/loan-form/PendingSubmissions";
 import { useToast } from "@/hooks/use-toast";
-import { useNavigate } from "react-router-dom";
-import { FileText, ArrowLeft } from "lucide-react";
-import { BACKEND_URL } from "@/config";
-import { useState } from "react";
+import { useDraftAutosave } from "@/hooks/use-draft-autosave";
+import { useLocation, useNavigate } from "react-router-dom";
+import { FileText, ArrowLeft, ArrowRight } from "lucide-react";
+import { api, ApiError, type ApplicationInput } from "@/lib/api";
+import { submissionQueue } from "@/lib/submission-queue";
+import {
+  FORM_STEPS,
+  applicationDefaults,
+  applicationSchema,
+  scenarioToValues,
+  toLoanDetails,
+  type ApplicationFormValues,
+  type LoanScenario,
+  type StepId,
+} from "@/lib/application-schema";
+import { storage } from "@/lib/storage";
+import { normalizeAadhaar, normalizeMobileNumber, normalizePan } from "@/lib/validation";
 import saiLogo from "@/assets/sai-logo.png";
 
-const formSchema = z.object({
-  name: z.string().min(2, "Name must be at least 2 characters").max(100),
-  phoneNumber: z.string().min(10, "Phone number must be at least 10 digits").max(15),
-  primaryContactNumber: z.string().min(10, "Primary contact must be at least 10 digits"),
-  address: z.string().min(10, "Address must be at least 10 characters").max(500),
-  dateOfBirth: z.string().min(1, "Date of birth is required"),
-  gender: z.string().min(1, "Please select a gender"),
-  loanCategory: z.string().min(1, "Please select a loan category"),
-  loanCategoryOther: z.string().optional(),
-  referralName: z.string().optional(),
-  referralPhone: z.string().optional(),
-});
+const STEP_COMPONENTS: Record<Exclude<StepId, "review">, () => JSX.Element> = {
+  personal: PersonalStep,
+  contact: ContactStep,
+  loan: LoanStep,
+  referrals: ReferralStep,
+  documents: DocumentsStep,
+};
 
 export default function LoanForm() {
   const { toast } = useToast();
   const navigate = useNavigate();
-  const [showOtherField, setShowOtherField] = useState(false);
-
-  const form = useForm({
-    resolver: zodResolver(formSchema),
-    defaultValues: {
-      name: "",
-      phoneNumber: "",
-      primaryContactNumber: "",
-      address: "",
-      dateOfBirth: "",
-      gender: "",
-      loanCategory: "",
-      loanCategoryOther: "",
-      referralName: "",
-      referralPhone: "",
-    },
+  const location = useLocation();
+  // Loan amount, tenure and rate chosen in the landing-page calculator, if the applicant came from there
+  const [initialValues] = useState<ApplicationFormValues>(() => ({
+    ...applicationDefaults,
+    ...scenarioToValues((location.state as { scenario?: LoanScenario } | null)?.scenario),
+  }));
+  const [stepIndex, setStepIndex] = useState(0);
+  // A draft left from an earlier visit, until the applicant resumes or discards it
+  const [pendingDraft, setPendingDraft] = useState(() => storage.getDraft<ApplicationFormValues>());
+  const [duplicateWarning, setDuplicateWarning] = useState<{ payload: ApplicationInput } | null>(null);
+  const [isSubmittingAnyway, setIsSubmittingAnyway] = useState(false);
+
+  const form = useForm<ApplicationFormValues>({
+    resolver: zodResolver(applicationSchema),
+    defaultValues: initialValues,
+    // Keep values of fields that unmount when moving between steps
+    shouldUnregister: false,
   });
 
-  const onSubmit = async (values: z.infer<typeof formSchema>) => {
-    // If "other" category is chosen, override loanCategory
-    if (values.loanCategory === "other" && values.loanCategoryOther) {
-      values.loanCategory = values.loanCategoryOther;
-    }
+  const draft = useDraftAutosave(form, stepIndex, !pendingDraft);
 
-    try {
-      const res = await fetch(`${BACKEND_URL}/api/applications`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(values),
-      });
+  const handleResumeDraft = () => {
+    form.reset({ ...applicationDefaults, ...pendingDraft.values });
+    setStepIndex(Math.min(pendingDraft.step, FORM_STEPS.length - 1));
+    setPendingDraft(null);
+  };
+
+  const handleDiscardDraft = () => {
+    draft.clear();
+    form.reset(initialValues);
+    setStepIndex(0);
+    setPendingDraft(null);
+  };
+
+  const step = FORM_STEPS[stepIndex];
+  const isReview = step.id === "review";
+  const StepFields = step.id === "review" ? null : STEP_COMPONENTS[step.id];
+
+  const scrollToTop = () => window.scrollTo({ top: 0, behavior: "smooth" });
 
-      const data = await res.json();
+  const goNext = async () => {
+    const valid = await form.trigger(step.fields, { shouldFocus: true });
+    if (!valid) return;
+    setStepIndex((i) => Math.min(i + 1, FORM_STEPS.length - 1));
+    scrollToTop();
+  };
+
+  const goBack = () => {
+    setStepIndex((i) => Math.max(i - 1, 0));
+    scrollToTop();
+  };
 
-      if (!res.ok) {
-        toast({
-          title: "Submission Failed",
-          description: data.message || "Unable to submit loan application",
-          variant: "destructive",
-        });
+  const goToStep = (id: StepId) => {
+    setStepIndex(FORM_STEPS.findIndex((s) => s.id === id));
+    scrollToTop();
+  };
+
+  // The form only validates as a whole on the review step; send the applicant
+  // to the first step with an error if anything slipped through.
+  const onInvalid = (errors: FieldErrors<ApplicationFormValues>) => {
+    const firstInvalid = FORM_STEPS.findIndex((s) => s.fields.some((f) => errors[f]));
+    if (firstInvalid >= 0) setStepIndex(firstInvalid);
+  };
+
+  const submitAnyway = async () => {
+    setIsSubmittingAnyway(true);
+    await submitPayload({ ...duplicateWarning.payload, duplicateAcknowledged: true });
+    setIsSubmittingAnyway(false);
+    setDuplicateWarning(null);
+  };
+
+  const onSubmit = async (values: ApplicationFormValues) => {
+    const payload: ApplicationInput = {
+      name: values.name,
+      dateOfBirth: values.dateOfBirth,
+      gender: values.gender,
+      panNumber: normalizePan(values.panNumber),
+      aadhaarNumber: normalizeAadhaar(values.aadhaarNumber),
+      phoneNumber: normalizeMobileNumber(values.phoneNumber),
+      primaryContactNumber: normalizeMobileNumber(values.primaryContactNumber),
+      address: values.address,
+      pinCode: values.pinCode,
+      city: values.city,
+      state: values.state,
+      phoneVerificationToken: values.phoneVerificationToken,
+      // If "other" category is chosen, override loanCategory
+      loanCategory:
+        values.loanCategory === "other" && values.loanCategoryOther ? values.loanCategoryOther : values.loanCategory,
+      loanCategoryOther: values.loanCategoryOther,
+      ...toLoanDetails(values),
+      referrals: values.referrals.map((r) => ({
+        name: r.name,
+        phone: normalizeMobileNumber(r.phone),
+        relationship: r.relationship,
+      })),
+      documents: values.documents,
+    };
+
+    // Warn people who already applied from another device; the check never blocks submitting
+    try {
+      const { name, phoneNumber, dateOfBirth, phoneVerificationToken } = payload;
+      const check = await api.checkDuplicate({ name, phoneNumber, dateOfBirth, phoneVerificationToken });
+      if (check?.duplicate) {
+        setDuplicateWarning({ payload });
         return;
       }
+    } catch {
+      // ignore
+    }
 
-      toast({
-        title: "Application Submitted",
-        description: "Your loan application has been successfully submitted.",
-      });
+    await submitPayload(payload);
+  };
+
+  const submitPayload = async (payload: ApplicationInput) => {
+    try {
+      // Network and server failures keep the application on this device for background upload
+      const { queued } = await submissionQueue.submit(payload, form.getValues());
 
+      toast(
+        queued
+          ? {
+              title: "Saved on this device",
+              description: "No connection right now. The application will be uploaded automatically.",
+            }
+          : {
+              title: "Application Submitted",
+              description: "Your loan application has been successfully submitted.",
+            }
+      );
+
+      draft.clear();
       form.reset();
-      navigate("/thank-you");
+      navigate("/thank-you", { state: { queued } });
 
     } catch (error) {
       console.error(error);
+      const rejected = error instanceof ApiError && !error.isNetworkError;
       toast({
-        title: "Server Error",
-        description: "Something went wrong. Please try again later.",
+        title: rejected ? "Submission Failed" : "Server Error",
+        description: rejected ? error.message : "Something went wrong. Please try again later.",
         variant: "destructive",
       });
     }
@@ -115,6 +223,8 @@ export default function LoanForm() {
           Back to Home
         </Button>
 
+        <PendingSubmissions onReopen={() => setPendingDraft(storage.getDraft<ApplicationFormValues>())} />
+
         <Card className="shadow-xl border-2">
           <CardHeader className="text-center bg-gradient-to-br from-primary/5 to-accent/5">
             <div className="flex justify-center mb-4">
@@ -127,211 +237,82 @@ export default function LoanForm() {
           </CardHeader>
 
           <CardContent className="pt-8">
+            {pendingDraft && (
+              <DraftBanner
+                savedAt={pendingDraft.savedAt}
+                onResume={handleResumeDraft}
+                onDiscard={handleDiscardDraft}
+              />
+            )}
+
             <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-                {/* Name */}
-                <FormField
-                  control={form.control}
-                  name="name"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Full Name *</FormLabel>
-                      <FormControl>
-                        <Input placeholder="John Doe" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                {/* Phone */}
-                <FormField
-                  control={form.control}
-                  name="phoneNumber"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Phone Number *</FormLabel>
-                      <FormControl>
-                        <Input placeholder="+91 1234567890" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                {/* Primary Contact */}
-                <FormField
-                  control={form.control}
-                  name="primaryContactNumber"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Primary Contact Number *</FormLabel>
-                      <FormControl>
-                        <Input placeholder="+91 1234567890" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                {/* Address */}
-                <FormField
-                  control={form.control}
-                  name="address"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Address *</FormLabel>
-                      <FormControl>
-                        <Textarea 
-                          placeholder="Enter your complete address" 
-                          className="min-h-[100px]"
-                          {...field} 
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <div className="grid md:grid-cols-2 gap-6">
-                  {/* DOB */}
-                  <FormField
-                    control={form.control}
-                    name="dateOfBirth"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Date of Birth *</FormLabel>
-                        <FormControl>
-                          <Input type="date" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  {/* Gender */}
-                  <FormField
-                    control={form.control}
-                    name="gender"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Gender *</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
-                          <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select gender" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            <SelectItem value="male">Male</SelectItem>
-                            <SelectItem value="female">Female</SelectItem>
-                            <SelectItem value="other">Other</SelectItem>
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (isReview) form.handleSubmit(onSubmit, onInvalid)(e);
+                  else goNext();
+                }}
+                className="space-y-8"
+              >
+                <StepIndicator steps={FORM_STEPS} current={stepIndex} />
 
-                {/* Loan Category */}
-                <FormField
-                  control={form.control}
-                  name="loanCategory"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Loan Category *</FormLabel>
-                      <Select
-                        onValueChange={(value) => {
-                          field.onChange(value);
-                          setShowOtherField(value === "other");
-                        }}
-                        defaultValue={field.value}
-                      >
-                        <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select loan category" />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          <SelectItem value="personal">Personal Loan</SelectItem>
-                          <SelectItem value="housing">Housing Loan</SelectItem>
-                          <SelectItem value="business">Business Loan</SelectItem>
-                          <SelectItem value="vehicle-old">Vehicle Loan (Old)</SelectItem>
-                          <SelectItem value="vehicle-new">Vehicle Loan (New)</SelectItem>
-                          <SelectItem value="other">Other</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                {/* Other Loan Category Input */}
-                {showOtherField && (
-                  <FormField
-                    control={form.control}
-                    name="loanCategoryOther"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Specify Loan Category *</FormLabel>
-                        <FormControl>
-                          <Input placeholder="Enter loan type" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                {draft.savedAt && (
+                  <div className="flex items-center justify-between text-xs text-muted-foreground -mt-4">
+                    <span>Draft saved on this device at {new Date(draft.savedAt).toLocaleTimeString()}</span>
+                    <Button type="button" variant="link" size="sm" className="h-auto p-0 text-xs" onClick={handleDiscardDraft}>
+                      Discard draft
+                    </Button>
+                  </div>
                 )}
 
-                <div className="border-t pt-6 mt-6">
-                  <h3 className="text-lg font-semibold mb-4 text-muted-foreground">Referral Information (Optional)</h3>
-                  
-                  <div className="grid md:grid-cols-2 gap-6">
-                    {/* Referral Name */}
-                    <FormField
-                      control={form.control}
-                      name="referralName"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Referral Name</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Enter referral name" {...field} />
-                          </FormControl>
-                        </FormItem>
-                      )}
-                    />
-
-                    {/* Referral Phone */}
-                    <FormField
-                      control={form.control}
-                      name="referralPhone"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Referral Phone</FormLabel>
-                          <FormControl>
-                            <Input placeholder="+91 1234567890" {...field} />
-                          </FormControl>
-                        </FormItem>
-                      )}
-                    />
-                  </div>
-                </div>
+                {StepFields ? <StepFields /> : <ReviewStep onEdit={goToStep} />}
+
+                <div className="flex justify-between gap-4 border-t pt-6">
+                  <Button type="button" variant="outline" onClick={goBack} disabled={stepIndex === 0}>
+                    <ArrowLeft className="mr-2 h-4 w-4" />
+                    Back
+                  </Button>
 
-                <Button 
-                  type="submit" 
-                  variant="finance" 
-                  className="w-full" 
-                  size="lg"
-                >
-                  Submit Application
-                </Button>
+                  {isReview ? (
+                    <Button
+                      type="submit"
+                      variant="finance"
+                      size="lg"
+                      disabled={form.formState.isSubmitting}
+                    >
+                      {form.formState.isSubmitting ? "Submitting..." : "Submit Application"}
+                    </Button>
+                  ) : (
+                    <Button type="submit" variant="finance">
+                      Next
+                      <ArrowRight className="ml-2 h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
               </form>
             </Form>
           </CardContent>
         </Card>
       </div>
 
+      <AlertDialog open={!!duplicateWarning} onOpenChange={(open) => !open && setDuplicateWarning(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>You may have applied already</AlertDialogTitle>
+            <AlertDialogDescription>
+              We already have an application with these details. Our team will contact you about it, so there's usually no need to apply again. Submit this one only
+              if your details or loan needs have changed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSubmittingAnyway}>Don't submit</AlertDialogCancel>
+            <Button variant="finance" onClick={submitAnyway} disabled={isSubmittingAnyway}>
+              {isSubmittingAnyway ? "Submitting..." : "Submit anyway"}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Footer */}
       <footer className="border-t bg-muted/50 mt-16">
         <div className="container mx-auto px-4 py-8 text-center">
@@ -1,11 +1,14 @@
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
 import { CheckCircle2 } from "lucide-react";
+import { PendingSubmissions } from "@/components/loan-form/PendingSubmissions";
 import saiLogo from "@/assets/sai-logo.png";
 
 export default function ThankYou() {
   const navigate = useNavigate();
+  // Set when the application was saved on this device to be uploaded later
+  const queued = !!(useLocation().state as { queued?: boolean } | null)?.queued;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-background">
@@ -29,13 +32,23 @@ export default function ThankYou() {
                 <CheckCircle2 className="h-16 w-16 text-white" />
               </div>
             </div>
-            <CardTitle className="text-4xl font-bold mb-2">Application Submitted!</CardTitle>
+            <CardTitle className="text-4xl font-bold mb-2">
+              {queued ? "Application Saved!" : "Application Submitted!"}
+            </CardTitle>
             <CardDescription className="text-base">
-              Your loan application has been received
+              {queued
+                ? "Your loan application will be uploaded as soon as this device is back online"
+                : "Your loan application has been received"}
             </CardDescription>
           </CardHeader>
 
           <CardContent className="pt-8 text-center space-y-6">
+            {queued && (
+              <div className="text-left">
+                <PendingSubmissions />
+              </div>
+            )}
+
             <div className="space-y-4">
               <p className="text-lg text-foreground">
                 Thank you for choosing <strong>Sai Financial Services</strong>.
@@ -1 +1,15 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_BACKEND_PROFILE?: string;
+  readonly VITE_BACKEND_URL?: string;
+  readonly VITE_PUBLIC_API_PATH?: string;
+  readonly VITE_ADMIN_API_PATH?: string;
+  readonly VITE_DRAFT_EXPIRY_DAYS?: string;
+  readonly VITE_OTP_PROVIDER?: string;
+  readonly VITE_DATA_SOURCE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}